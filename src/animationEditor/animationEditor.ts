@@ -1,15 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-
-interface AnimationData {
-    image: string;
-    columns: number;
-    rows: number;
-    fps: number;
-    imagePadding?: number;
-    padding?: number;
-    animations: { [name: string]: number[] };
-}
+import { findProjectFolderForFile } from '../package/projectFiles';
+import { AnimationData, createDefaultAnimation } from '../assets/assetTypes';
+import { getAssetErrorHtml, handleAssetErrorMessage, parseAssetText } from '../assets/assetDocument';
 
 export class AnimationEditorProvider implements vscode.CustomTextEditorProvider {
     public static register(context: vscode.ExtensionContext): vscode.Disposable {
@@ -28,13 +21,14 @@ export class AnimationEditorProvider implements vscode.CustomTextEditorProvider
         webviewPanel: vscode.WebviewPanel,
         _token: vscode.CancellationToken
     ): Promise<void> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        // Asset paths ("[game]/images/hero.png") are relative to the project that owns this file
+        const projectFolder = await findProjectFolderForFile(document.uri);
         const localResourceRoots = [
             vscode.Uri.joinPath(this.context.extensionUri, 'node_modules', '@vscode', 'webview-ui-toolkit', 'dist'),
             vscode.Uri.joinPath(this.context.extensionUri, 'src', 'animationEditor')
         ];
-        if (workspaceFolder) {
-            localResourceRoots.push(workspaceFolder.uri);
+        if (projectFolder) {
+            localResourceRoots.push(projectFolder);
         }
 
         webviewPanel.webview.options = {
@@ -42,32 +36,11 @@ export class AnimationEditorProvider implements vscode.CustomTextEditorProvider
             localResourceRoots: localResourceRoots
         };
 
-        // Load the animation data
-        let animationData: AnimationData;
-        try {
-            const text = document.getText();
-            if (text.trim().length === 0) {
-                // Empty file - create default data
-                animationData = {
-                    image: '',
-                    columns: 1,
-                    rows: 1,
-                    fps: 10,
-                    animations: {}
-                };
-            } else {
-                animationData = JSON.parse(text);
-            }
-        } catch (e) {
-            vscode.window.showErrorMessage('Failed to parse animation file. Using defaults.');
-            animationData = {
-                image: '',
-                columns: 1,
-                rows: 1,
-                fps: 10,
-                animations: {}
-            };
-        }
+        // Load the animation data; a file that can't be parsed gets an error page instead of defaults,
+        // so the next edit can't overwrite it
+        const parsed = parseAssetText(document.getText(), createDefaultAnimation());
+        let animationData = parsed.data ?? createDefaultAnimation();
+        let parseError = parsed.error;
 
         // Get toolkit URI
         const toolkitUri = webviewPanel.webview.asWebviewUri(
@@ -91,7 +64,9 @@ export class AnimationEditorProvider implements vscode.CustomTextEditorProvider
 
         // Update webview content
         const updateWebview = () => {
-            webviewPanel.webview.html = this.getHtmlContent(webviewPanel.webview, animationData, toolkitUri, cssUri, jsUri);
+            webviewPanel.webview.html = parseError
+                ? getAssetErrorHtml(document, parseError, toolkitUri)
+                : this.getHtmlContent(webviewPanel.webview, animationData, toolkitUri, cssUri, jsUri);
         };
 
         updateWebview();
@@ -100,33 +75,38 @@ export class AnimationEditorProvider implements vscode.CustomTextEditorProvider
 
         // Handle messages from the webview
         webviewPanel.webview.onDidReceiveMessage(async message => {
+            if (await handleAssetErrorMessage(message, document, webviewPanel, () => this.updateTextDocument(document, createDefaultAnimation()))) {
+                return;
+            }
             switch (message.type) {
                 case 'update':
+                    if (parseError) {
+                        // The file broke after this edit was made; don't overwrite it
+                        break;
+                    }
                     isUpdating = true;
                     animationData = message.data;
                     this.updateTextDocument(document, message.data);
                     setTimeout(() => { isUpdating = false; }, 500);
                     break;
                 case 'browse': {
-                    // Find all image files in the workspace
+                    // Find all image files in the project
+                    if (!projectFolder) {
+                        break;
+                    }
                     const imageFiles = await vscode.workspace.findFiles(
-                        '**/*.{png,jpg,jpeg,bmp,gif}',
+                        new vscode.RelativePattern(projectFolder, '**/*.{png,jpg,jpeg,bmp,gif}'),
                         '**/node_modules/**'
                     );
 
                     if (imageFiles.length === 0) {
-                        vscode.window.showWarningMessage('No image files found in workspace');
-                        break;
-                    }
-
-                    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-                    if (!workspaceFolder) {
+                        vscode.window.showWarningMessage('No image files found in the project');
                         break;
                     }
 
                     // Create quick pick items with relative paths
                     const items = imageFiles.map(uri => {
-                        const relativePath = path.relative(workspaceFolder.uri.fsPath, uri.fsPath);
+                        const relativePath = path.relative(projectFolder.fsPath, uri.fsPath);
                         return {
                             label: path.basename(uri.fsPath),
                             description: path.dirname(relativePath),
@@ -135,7 +115,7 @@ export class AnimationEditorProvider implements vscode.CustomTextEditorProvider
                     }).sort((a, b) => a.path.localeCompare(b.path));
 
                     const selected = await vscode.window.showQuickPick(items, {
-                        placeHolder: 'Select a sprite sheet from your workspace',
+                        placeHolder: 'Select a sprite sheet from your project',
                         matchOnDescription: true
                     });
 
@@ -205,11 +185,10 @@ export class AnimationEditorProvider implements vscode.CustomTextEditorProvider
                     break;
                 case 'getImageUri': {
                     // Convert relative path to webview URI
-                    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-                    if (workspaceFolder && message.path) {
+                    if (projectFolder && message.path) {
                         // Remove [game] or other placeholders and clean the path
                         let cleanPath = message.path.replace(/^\[game\]\//, '').replace(/^\[game\]\\/, '');
-                        const fullPath = path.join(workspaceFolder.uri.fsPath, cleanPath);
+                        const fullPath = path.join(projectFolder.fsPath, cleanPath);
                         const imageUri = webviewPanel.webview.asWebviewUri(vscode.Uri.file(fullPath));
                         webviewPanel.webview.postMessage({
                             type: 'imageUri',
@@ -224,18 +203,26 @@ export class AnimationEditorProvider implements vscode.CustomTextEditorProvider
         // Update webview when document changes (but not if we initiated the change)
         const changeDocumentSubscription = vscode.workspace.onDidChangeTextDocument(e => {
             if (e.document.uri.toString() === document.uri.toString() && !isUpdating) {
-                try {
-                    const text = e.document.getText();
-                    if (text.trim().length > 0) {
-                        animationData = JSON.parse(text);
-                        // Send update message to webview instead of regenerating HTML
-                        webviewPanel.webview.postMessage({
-                            type: 'dataChanged',
-                            data: animationData
-                        });
-                    }
-                } catch (e) {
-                    // Ignore parse errors during editing
+                const text = e.document.getText();
+                if (text.trim().length === 0) {
+                    return;
+                }
+                const changed = parseAssetText(text, createDefaultAnimation());
+                if (changed.error) {
+                    // Editing stays off until the file is valid again
+                    parseError = changed.error;
+                    updateWebview();
+                } else if (parseError) {
+                    parseError = undefined;
+                    animationData = changed.data;
+                    updateWebview();
+                } else {
+                    animationData = changed.data;
+                    // Send update message to webview instead of regenerating HTML
+                    webviewPanel.webview.postMessage({
+                        type: 'dataChanged',
+                        data: animationData
+                    });
                 }
             }
         });
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { findProjectFolderForFile } from '../package/projectFiles';
+import { ASSET_EXTENSIONS } from './assetTypes';
+import { validateAsset } from './assetValidation';
+import { getImageSize } from './imageSize';
+
+// Reports the problems of open .xsanim, .xssprite and .xstiles files in the Problems panel,
+// whether they are open in their editor or as text
+export class AssetDiagnostics implements vscode.Disposable {
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('xs-assets');
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        // Adding, replacing or removing an image changes which frames and sprites fit
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.{png,jpg,jpeg,bmp,gif}');
+        this.disposables.push(
+            this.diagnostics,
+            watcher,
+            watcher.onDidCreate(() => this.validateOpenDocuments()),
+            watcher.onDidChange(() => this.validateOpenDocuments()),
+            watcher.onDidDelete(() => this.validateOpenDocuments()),
+            vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+            vscode.workspace.onDidChangeTextDocument(e => this.validate(e.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri))
+        );
+        this.validateOpenDocuments();
+    }
+
+    async validate(document: vscode.TextDocument) {
+        const kind = ASSET_EXTENSIONS[path.extname(document.uri.path).toLowerCase()];
+        if (!kind) {
+            return;
+        }
+        if (document.getText().trim().length === 0) {
+            // New files; the editors fill them in
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+
+        // Asset paths ("[game]/images/hero.png") are relative to the project that owns the file
+        const projectFolder = await findProjectFolderForFile(document.uri);
+        const version = document.version;
+        const problems = await validateAsset(kind, document.getText(), {
+            getImageSize: async imagePath => {
+                const relativePath = imagePath.replace(/^\[game\][\\/]/, '');
+                const imageUri = path.isAbsolute(relativePath)
+                    ? vscode.Uri.file(relativePath)
+                    : vscode.Uri.joinPath(projectFolder ?? vscode.Uri.joinPath(document.uri, '..'), relativePath);
+                try {
+                    return getImageSize(await vscode.workspace.fs.readFile(imageUri));
+                } catch {
+                    return null;
+                }
+            }
+        });
+        if (document.isClosed || document.version !== version) {
+            // Changed again while reading the image; that change is validated on its own
+            return;
+        }
+        this.diagnostics.set(document.uri, problems.map(problem => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end)),
+                problem.message,
+                problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'xs';
+            return diagnostic;
+        }));
+    }
+
+    private validateOpenDocuments() {
+        vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
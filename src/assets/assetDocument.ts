@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// Loading asset files into the animation, sprite and tiles editors. A file that can't be
+// parsed is never replaced with defaults behind the user's back: the editor shows an error
+// page instead, and editing stays off until the file is valid again
+
+export interface AssetParseError {
+    message: string;
+    // 1-based, when JSON.parse reports where it failed
+    line?: number;
+    column?: number;
+}
+
+export type AssetParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: AssetParseError };
+
+// Empty files (new ones) get the defaults. Objects in the defaults (the animation or sprite
+// maps) must be objects in the file too, since the editors can't show anything else
+export function parseAssetText<T extends object>(text: string, defaults: T): AssetParseResult<T> {
+    if (text.trim().length === 0) {
+        return { data: defaults };
+    }
+
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const position = /at position (\d+)/.exec(message);
+        if (!position) {
+            return { error: { message } };
+        }
+        const before = text.substring(0, Number(position[1])).split('\n');
+        return { error: { message, line: before.length, column: before[before.length - 1].length + 1 } };
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { error: { message: 'The file must contain a JSON object' } };
+    }
+    for (const [key, value] of Object.entries(defaults)) {
+        if (value && typeof value === 'object' && (!data[key] || typeof data[key] !== 'object' || Array.isArray(data[key]))) {
+            return { error: { message: `"${key}" must be an object` } };
+        }
+    }
+    return { data };
+}
+
+// The page shown instead of the editor while the file can't be parsed
+export function getAssetErrorHtml(document: vscode.TextDocument, error: AssetParseError, toolkitUri: vscode.Uri): string {
+    const location = error.line !== undefined ? ` (line ${error.line}, column ${error.column})` : '';
+    return `<!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <script type="module" src="${toolkitUri}"></script>
+            <style>
+                body { padding: 24px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+                .error { margin: 12px 0 20px; padding: 8px 12px; border-left: 3px solid var(--vscode-errorForeground); background: var(--vscode-textBlockQuote-background); font-family: var(--vscode-editor-font-family); white-space: pre-wrap; }
+                .actions { display: flex; gap: 8px; }
+            </style>
+        </head>
+        <body>
+            <h2>${escapeHtml(path.basename(document.uri.fsPath))} can't be opened in this editor</h2>
+            <p>The file is not valid${location}. Editing is disabled so the file is not overwritten; fix it as text and the editor comes back.</p>
+            <div class="error">${escapeHtml(error.message)}</div>
+            <div class="actions">
+                <vscode-button id="reopen-as-text">Reopen as Text</vscode-button>
+                <vscode-button id="reset-to-defaults" appearance="secondary">Reset to Defaults...</vscode-button>
+            </div>
+            <script>
+                const vscode = acquireVsCodeApi();
+                document.getElementById('reopen-as-text').addEventListener('click', () => vscode.postMessage({ type: 'reopenAsText' }));
+                document.getElementById('reset-to-defaults').addEventListener('click', () => vscode.postMessage({ type: 'resetToDefaults' }));
+            </script>
+        </body>
+        </html>`;
+}
+
+// Handles the buttons of the error page; resetting replaces the file with the defaults after confirmation
+export async function handleAssetErrorMessage(
+    message: { type: string },
+    document: vscode.TextDocument,
+    webviewPanel: vscode.WebviewPanel,
+    reset: () => void
+): Promise<boolean> {
+    switch (message.type) {
+        case 'reopenAsText': {
+            const column = webviewPanel.viewColumn;
+            webviewPanel.dispose();
+            await vscode.commands.executeCommand('vscode.openWith', document.uri, 'default', column);
+            return true;
+        }
+        case 'resetToDefaults': {
+            const selection = await vscode.window.showWarningMessage(
+                `Reset ${path.basename(document.uri.fsPath)} to defaults? Its current contents will be replaced.`,
+                { modal: true },
+                'Reset'
+            );
+            if (selection === 'Reset') {
+                reset();
+            }
+            return true;
+        }
+        default:
+            return false;
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
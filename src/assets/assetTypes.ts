@@ -0,0 +1,58 @@
+// The asset files the editors read and write; schemas/*.schema.json describe the same formats
+
+// .xsanim: named animations, each a list of frame indices into a sheet of columns x rows cells,
+// numbered left to right and top to bottom
+export interface AnimationData {
+    image: string;
+    columns: number;
+    rows: number;
+    fps: number;
+    // Pixels around the whole sheet
+    imagePadding?: number;
+    // Pixels around each cell
+    padding?: number;
+    animations: { [name: string]: number[] };
+}
+
+export interface SpriteRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// .xssprite: named rectangles of an image
+export interface SpriteData {
+    image: string;
+    sprites: { [name: string]: SpriteRect };
+}
+
+// .xstiles: a sheet of columns x rows tiles
+export interface TilesData {
+    image: string;
+    columns: number;
+    rows: number;
+    imagePadding?: number;
+    padding?: number;
+}
+
+export type AssetKind = 'animation' | 'sprite' | 'tiles';
+
+export const ASSET_EXTENSIONS: { [ext: string]: AssetKind } = {
+    '.xsanim': 'animation',
+    '.xssprite': 'sprite',
+    '.xstiles': 'tiles'
+};
+
+// What the editors start new (empty) files with
+export function createDefaultAnimation(): AnimationData {
+    return { image: '', columns: 1, rows: 1, fps: 10, animations: {} };
+}
+
+export function createDefaultSprites(): SpriteData {
+    return { image: '', sprites: {} };
+}
+
+export function createDefaultTiles(): TilesData {
+    return { image: '', columns: 1, rows: 1 };
+}
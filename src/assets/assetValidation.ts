@@ -0,0 +1,209 @@
+import { AssetKind } from './assetTypes';
+import { ImageSize } from './imageSize';
+
+// Checks of .xsanim, .xssprite and .xstiles files: the structure the schemas describe, plus
+// what they can't express (frames past the end of the sheet, sprites outside the image,
+// missing images). Files are checked as text, since malformed files never reach the editors
+
+export interface AssetProblem {
+    message: string;
+    // Offsets into the asset text
+    start: number;
+    end: number;
+    severity: 'error' | 'warning';
+}
+
+export interface AssetValidationContext {
+    // The size of the image an asset refers to ("[game]/images/hero.png"): null when the file
+    // does not exist, undefined when its size can't be read
+    getImageSize(imagePath: string): Promise<ImageSize | null | undefined>;
+}
+
+type JsonPath = (string | number)[];
+
+export async function validateAsset(kind: AssetKind, text: string, context: AssetValidationContext): Promise<AssetProblem[]> {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const position = /at position (\d+)/.exec(message);
+        const start = position ? Math.min(Number(position[1]), text.length) : 0;
+        return [{ message: `Invalid JSON: ${message}`, start, end: start + 1, severity: 'error' }];
+    }
+
+    const spans = new JsonSpans(text);
+    const problems: AssetProblem[] = [];
+    const report = (path: JsonPath, message: string, severity: AssetProblem['severity'] = 'error') => {
+        const span = spans.get(path);
+        problems.push({ message, start: span.start, end: span.end, severity });
+    };
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        report([], 'An asset file must be a JSON object');
+        return problems;
+    }
+
+    // The image
+    let imageSize: ImageSize | undefined;
+    if (typeof data.image !== 'string') {
+        report(data.image === undefined ? [] : ['image'], '"image" must be the path of an image, e.g. "[game]/images/hero.png"');
+    } else if (!data.image) {
+        report(['image'], 'No image is set', 'warning');
+    } else {
+        const size = await context.getImageSize(data.image);
+        if (size === null) {
+            report(['image'], `Image "${data.image}" does not exist`);
+        }
+        imageSize = size ?? undefined;
+    }
+
+    if (kind === 'sprite') {
+        checkSprites(data, imageSize, report);
+        return problems;
+    }
+
+    // Sheets of columns x rows cells
+    const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 1;
+    for (const field of ['columns', 'rows']) {
+        if (!isCount(data[field])) {
+            report(data[field] === undefined ? [] : [field], data[field] === undefined ? `Missing "${field}"` : `"${field}" must be a whole number of at least 1`);
+        }
+    }
+    for (const field of ['imagePadding', 'padding']) {
+        if (data[field] !== undefined && typeof data[field] !== 'number') {
+            report([field], `"${field}" must be a number of pixels`);
+        } else if (data[field] < 0) {
+            report([field], `"${field}" cannot be negative`);
+        }
+    }
+    if (kind === 'animation') {
+        if (typeof data.fps !== 'number' || data.fps <= 0) {
+            report(data.fps === undefined ? [] : ['fps'], data.fps === undefined ? 'Missing "fps"' : '"fps" must be a number above 0');
+        }
+        const frameCount = isCount(data.columns) && isCount(data.rows) ? data.columns * data.rows : undefined;
+        checkAnimations(data, frameCount, report);
+    }
+    return problems;
+}
+
+function checkAnimations(data: any, frameCount: number | undefined, report: (path: JsonPath, message: string) => void) {
+    const animations = data.animations;
+    if (!animations || typeof animations !== 'object' || Array.isArray(animations)) {
+        report(animations === undefined ? [] : ['animations'], animations === undefined ? 'Missing "animations"' : '"animations" must map names to lists of frames');
+        return;
+    }
+    for (const [name, frames] of Object.entries(animations)) {
+        if (!Array.isArray(frames)) {
+            report(['animations', name], `Animation "${name}" must be a list of frame indices`);
+            continue;
+        }
+        frames.forEach((frame, index) => {
+            if (!Number.isInteger(frame)) {
+                report(['animations', name, index], `Frame ${JSON.stringify(frame)} of "${name}" must be a whole number`);
+            } else if (frameCount !== undefined && (frame < 0 || frame >= frameCount)) {
+                report(['animations', name, index], `Frame ${frame} of "${name}" is out of range: the sheet has ${frameCount} frames (0-${frameCount - 1})`);
+            }
+        });
+    }
+}
+
+function checkSprites(data: any, imageSize: ImageSize | undefined, report: (path: JsonPath, message: string) => void) {
+    const sprites = data.sprites;
+    if (!sprites || typeof sprites !== 'object' || Array.isArray(sprites)) {
+        report(sprites === undefined ? [] : ['sprites'], sprites === undefined ? 'Missing "sprites"' : '"sprites" must map names to rectangles');
+        return;
+    }
+    for (const [name, sprite] of Object.entries<any>(sprites)) {
+        const missing = ['x', 'y', 'width', 'height'].filter(field => typeof sprite?.[field] !== 'number');
+        if (missing.length > 0) {
+            report(['sprites', name], `Sprite "${name}" needs a number for ${missing.map(field => `"${field}"`).join(', ')}`);
+            continue;
+        }
+        const { x, y, width, height } = sprite;
+        if (width <= 0 || height <= 0) {
+            report(['sprites', name], `Sprite "${name}" must have a width and height above 0`);
+        } else if (x < 0 || y < 0 || (imageSize && (x + width > imageSize.width || y + height > imageSize.height))) {
+            const bounds = imageSize ? ` (${imageSize.width}x${imageSize.height})` : '';
+            report(['sprites', name], `Sprite "${name}" at ${x},${y} (${width}x${height}) is outside the image${bounds}`);
+        }
+    }
+}
+
+// Offsets of the values in JSON text, by their path; for text JSON.parse accepted
+class JsonSpans {
+    private readonly values = new Map<string, { start: number; end: number }>();
+    private readonly keys = new Map<string, { start: number; end: number }>();
+    private offset = 0;
+
+    constructor(private readonly text: string) {
+        this.value([]);
+    }
+
+    // Where to report a value: objects and arrays, which span lines, by their key or their
+    // opening bracket; the start of the document when the value is not there
+    get(path: JsonPath): { start: number; end: number } {
+        const id = JSON.stringify(path);
+        const span = this.values.get(id);
+        if (!span) {
+            return { start: 0, end: 0 };
+        }
+        if (this.text[span.start] === '{' || this.text[span.start] === '[') {
+            return this.keys.get(id) ?? { start: span.start, end: span.start + 1 };
+        }
+        return span;
+    }
+
+    private value(path: JsonPath) {
+        this.skipWhitespace();
+        const start = this.offset;
+        const char = this.text[this.offset];
+        if (char === '{' || char === '[') {
+            const close = char === '{' ? '}' : ']';
+            this.offset++;
+            let index = 0;
+            this.skipWhitespace();
+            while (this.offset < this.text.length && this.text[this.offset] !== close) {
+                if (char === '{') {
+                    const keyStart = this.offset;
+                    const key = this.string();
+                    this.keys.set(JSON.stringify([...path, key]), { start: keyStart, end: this.offset });
+                    this.skipWhitespace();
+                    // ':'
+                    this.offset++;
+                    this.value([...path, key]);
+                } else {
+                    this.value([...path, index++]);
+                }
+                this.skipWhitespace();
+                if (this.text[this.offset] === ',') {
+                    this.offset++;
+                    this.skipWhitespace();
+                }
+            }
+            this.offset++;
+        } else if (char === '"') {
+            this.string();
+        } else {
+            while (this.offset < this.text.length && !/[\s,\]}]/.test(this.text[this.offset])) {
+                this.offset++;
+            }
+        }
+        this.values.set(JSON.stringify(path), { start, end: this.offset });
+    }
+
+    private string(): string {
+        const start = this.offset++;
+        while (this.offset < this.text.length && this.text[this.offset] !== '"') {
+            this.offset += this.text[this.offset] === '\\' ? 2 : 1;
+        }
+        this.offset++;
+        return JSON.parse(this.text.substring(start, this.offset));
+    }
+
+    private skipWhitespace() {
+        while (this.offset < this.text.length && /\s/.test(this.text[this.offset])) {
+            this.offset++;
+        }
+    }
+}
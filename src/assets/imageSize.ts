@@ -0,0 +1,45 @@
+// Pixel size of an image from its header, for the formats the asset editors open
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+export function getImageSize(data: Uint8Array): ImageSize | undefined {
+    const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47 && bytes.toString('ascii', 12, 16) === 'IHDR') {
+        return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+    }
+    if (bytes.length >= 10 && bytes.toString('ascii', 0, 4) === 'GIF8') {
+        return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+    }
+    if (bytes.length >= 26 && bytes.toString('ascii', 0, 2) === 'BM') {
+        // Negative heights are top-down bitmaps
+        return { width: Math.abs(bytes.readInt32LE(18)), height: Math.abs(bytes.readInt32LE(22)) };
+    }
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+        return getJpegSize(bytes);
+    }
+    return undefined;
+}
+
+// The size is in the first start-of-frame segment (SOF0-SOF15, except DHT, JPG and DAC)
+function getJpegSize(bytes: Buffer): ImageSize | undefined {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) {
+            return undefined;
+        }
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) {
+            // Fill byte
+            offset++;
+            continue;
+        }
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + bytes.readUInt16BE(offset + 2);
+    }
+    return undefined;
+}
@@ -0,0 +1,464 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { EngineConnection, EngineEvent, EngineStackFrame, EngineVariable } from './engineConnection';
+
+// A launch is a sequence of engine invocations, e.g. `xs package ...` followed by `xs run ...`;
+// a step that fails stops the sequence
+export interface XsLaunchStep {
+    label: string;
+    args: string[];
+    // The step that runs the game; with debugging enabled it gets XS_DEBUG_PORT, and
+    // EngineRunner only reports the engine as running during it
+    debug?: boolean;
+}
+
+export interface XsLaunchPlan {
+    executable: string;
+    cwd: string;
+    // Extra environment variables for every step
+    env?: { [name: string]: string };
+    steps: XsLaunchStep[];
+    // Present when the session debugs scripts (not for Run Without Debugging)
+    debug?: {
+        port: number;
+        // Script paths from the engine are relative to this folder
+        projectFolder: string;
+    };
+}
+
+// The subset of the Debug Adapter Protocol messages used here
+interface DebugRequest {
+    seq: number;
+    type: 'request';
+    command: string;
+    // One of the *Arguments below, depending on the command; the other requests read none
+    arguments?: unknown;
+}
+
+interface SetBreakpointsArguments {
+    source: { path?: string };
+    breakpoints?: { line: number }[];
+}
+
+interface ScopesArguments {
+    frameId: number;
+}
+
+interface VariablesArguments {
+    variablesReference: number;
+}
+
+interface EvaluateArguments {
+    expression: string;
+    frameId?: number;
+}
+
+interface DebugBreakpoint {
+    id?: number;
+    verified: boolean;
+    line?: number;
+    message?: string;
+}
+
+// Response bodies, by command
+interface DebugResponseBodies {
+    initialize: { supportsConfigurationDoneRequest: boolean; supportsTerminateRequest: boolean; supportsEvaluateForHovers: boolean };
+    setBreakpoints: { breakpoints: DebugBreakpoint[] };
+    threads: { threads: { id: number; name: string }[] };
+    stackTrace: {
+        stackFrames: { id: number; name: string; source: { name: string; path: string }; line: number; column: number }[];
+        totalFrames: number;
+    };
+    scopes: { scopes: { name: string; variablesReference: number; expensive: boolean }[] };
+    variables: { variables: { name: string; value: string; type?: string; variablesReference: number }[] };
+    evaluate: { result: string; type?: string; variablesReference: number };
+    continue: { allThreadsContinued: boolean };
+}
+
+// Event bodies, by event
+interface DebugEventBodies {
+    initialized: undefined;
+    output: { category: 'console' | 'stdout' | 'stderr'; output: string };
+    breakpoint: { reason: 'changed'; breakpoint: DebugBreakpoint };
+    stopped: { reason: string; description?: string; threadId: number; allThreadsStopped: boolean };
+    continued: { threadId: number; allThreadsContinued: boolean };
+    exited: { exitCode: number };
+    terminated: undefined;
+}
+
+interface SourceBreakpoints {
+    ids: number[];
+    lines: number[];
+}
+
+const THREAD_ID = 1;
+
+// How long to keep trying to reach the engine's debug port after it starts
+const CONNECT_ATTEMPTS = 100;
+const CONNECT_INTERVAL = 100;
+
+// Inline Debug Adapter Protocol implementation for the xs launch type: runs the engine
+// as a child process, forwards its output to the Debug Console and, when debugging,
+// bridges breakpoints, stepping and inspection to the engine debug protocol
+export class XsDebugAdapter implements vscode.DebugAdapter {
+    private readonly sendMessage = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+    readonly onDidSendMessage = this.sendMessage.event;
+
+    private sequence = 1;
+    private process: ChildProcess | undefined;
+    private stopRequested = false;
+    private finished = false;
+
+    private connection: EngineConnection | undefined;
+    private configurationDone = false;
+    // Set once the engine has received the breakpoints set before it was reachable
+    private engineReady = false;
+    private nextBreakpointId = 1;
+    // Breakpoints per script, keyed by the engine's relative path
+    private readonly breakpoints = new Map<string, SourceBreakpoints>();
+
+    constructor(private readonly plan: XsLaunchPlan) {}
+
+    handleMessage(message: vscode.DebugProtocolMessage): void {
+        const request = message as DebugRequest;
+        if (request.type !== 'request') {
+            return;
+        }
+
+        this.handleRequest(request).catch(error => {
+            this.respond(request, undefined, error instanceof Error ? error.message : String(error));
+        });
+    }
+
+    dispose() {
+        this.stop();
+        this.sendMessage.dispose();
+    }
+
+    private async handleRequest(request: DebugRequest) {
+        switch (request.command) {
+            case 'initialize':
+                this.respond(request, {
+                    supportsConfigurationDoneRequest: true,
+                    supportsTerminateRequest: true,
+                    supportsEvaluateForHovers: this.plan.debug !== undefined
+                });
+                this.sendEvent('initialized');
+                break;
+            case 'launch':
+                this.respond(request);
+                this.run();
+                break;
+            case 'setBreakpoints':
+                this.respond(request, { breakpoints: await this.setBreakpoints(request.arguments as SetBreakpointsArguments) });
+                break;
+            case 'configurationDone':
+                this.configurationDone = true;
+                if (this.connection && this.engineReady) {
+                    await this.connection.request('configurationDone');
+                }
+                this.respond(request);
+                break;
+            case 'threads':
+                this.respond(request, { threads: [{ id: THREAD_ID, name: 'xs' }] });
+                break;
+            case 'stackTrace': {
+                const { frames } = await this.getConnection().request<{ frames: EngineStackFrame[] }>('stackTrace');
+                this.respond(request, {
+                    stackFrames: frames.map((frame, index) => ({
+                        id: index,
+                        name: frame.function,
+                        source: { name: path.basename(frame.file), path: this.toLocalPath(frame.file) },
+                        line: frame.line,
+                        column: 1
+                    })),
+                    totalFrames: frames.length
+                });
+                break;
+            }
+            case 'scopes': {
+                const args = request.arguments as ScopesArguments;
+                const { scopes } = await this.getConnection().request<{ scopes: { name: string; reference: number }[] }>(
+                    'scopes', { frame: args.frameId }
+                );
+                this.respond(request, {
+                    scopes: scopes.map(scope => ({ name: scope.name, variablesReference: scope.reference, expensive: false }))
+                });
+                break;
+            }
+            case 'variables': {
+                const args = request.arguments as VariablesArguments;
+                const { variables } = await this.getConnection().request<{ variables: EngineVariable[] }>(
+                    'variables', { reference: args.variablesReference }
+                );
+                this.respond(request, {
+                    variables: variables.map(variable => ({
+                        name: variable.name,
+                        value: variable.value,
+                        type: variable.type,
+                        variablesReference: variable.reference || 0
+                    }))
+                });
+                break;
+            }
+            case 'evaluate': {
+                const args = request.arguments as EvaluateArguments;
+                const result = await this.getConnection().request<{ value: string; type?: string; reference?: number }>(
+                    'evaluate', { expression: args.expression, frame: args.frameId }
+                );
+                this.respond(request, { result: result.value, type: result.type, variablesReference: result.reference || 0 });
+                break;
+            }
+            case 'continue':
+                await this.getConnection().request('continue');
+                this.respond(request, { allThreadsContinued: true });
+                break;
+            case 'next':
+                await this.getConnection().request('stepOver');
+                this.respond(request);
+                break;
+            case 'stepIn':
+                await this.getConnection().request('stepIn');
+                this.respond(request);
+                break;
+            case 'stepOut':
+                await this.getConnection().request('stepOut');
+                this.respond(request);
+                break;
+            case 'pause':
+                await this.getConnection().request('pause');
+                this.respond(request);
+                break;
+            case 'terminate':
+                this.respond(request);
+                this.stop();
+                break;
+            case 'disconnect':
+                this.stop();
+                this.respond(request);
+                break;
+            default:
+                this.respond(request, undefined, `Unsupported request: ${request.command}`);
+                break;
+        }
+    }
+
+    private async setBreakpoints(args: SetBreakpointsArguments): Promise<DebugBreakpoint[]> {
+        const requested = args.breakpoints || [];
+        if (!this.plan.debug || !args.source?.path) {
+            return requested.map(() => ({ verified: false, message: 'Not debugging' }));
+        }
+
+        const file = this.toEnginePath(args.source.path);
+        const sourceBreakpoints = {
+            ids: requested.map(() => this.nextBreakpointId++),
+            lines: requested.map(breakpoint => breakpoint.line)
+        };
+        this.breakpoints.set(file, sourceBreakpoints);
+
+        if (!this.connection) {
+            // Sent to the engine once it is connected
+            return sourceBreakpoints.ids.map((id, index) => ({
+                id,
+                verified: false,
+                line: sourceBreakpoints.lines[index],
+                message: 'Waiting for the engine'
+            }));
+        }
+        return this.sendBreakpoints(this.connection, file, sourceBreakpoints);
+    }
+
+    private async sendBreakpoints(connection: EngineConnection, file: string, sourceBreakpoints: SourceBreakpoints): Promise<DebugBreakpoint[]> {
+        const { lines } = await connection.request<{ lines: (number | null)[] }>(
+            'setBreakpoints', { file, lines: sourceBreakpoints.lines }
+        );
+        return sourceBreakpoints.ids.map((id, index) => {
+            const line = lines[index];
+            return line === null || line === undefined
+                ? { id, verified: false, line: sourceBreakpoints.lines[index], message: 'No code on this line' }
+                : { id, verified: true, line };
+        });
+    }
+
+    private getConnection(): EngineConnection {
+        if (!this.connection) {
+            throw new Error('Not connected to the xs engine');
+        }
+        return this.connection;
+    }
+
+    // Connect to the engine's debug port, retrying while the engine starts up
+    private async connect(child: ChildProcess, port: number) {
+        // Cuts the wait between attempts short once the engine is gone
+        const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+        for (let attempt = 0; attempt < CONNECT_ATTEMPTS; attempt++) {
+            if (this.stopRequested || child.exitCode !== null || child.signalCode !== null) {
+                return;
+            }
+            let connection: EngineConnection | undefined;
+            try {
+                connection = await EngineConnection.connect(port);
+                await this.attach(connection);
+                return;
+            } catch {
+                // The next attempt starts over on a fresh connection
+                connection?.close();
+                await Promise.race([exited, new Promise(resolve => setTimeout(resolve, CONNECT_INTERVAL))]);
+            }
+        }
+        this.output('console', 'Could not connect to the xs engine debugger; breakpoints are disabled\n');
+    }
+
+    private async attach(connection: EngineConnection) {
+        this.connection = connection;
+        connection.onEvent(event => this.handleEngineEvent(event));
+        connection.onClose(() => {
+            if (this.connection === connection) {
+                this.connection = undefined;
+                this.engineReady = false;
+            }
+        });
+
+        // Breakpoints set before the engine was reachable
+        for (const [file, sourceBreakpoints] of this.breakpoints) {
+            const breakpoints = await this.sendBreakpoints(connection, file, sourceBreakpoints);
+            for (const breakpoint of breakpoints) {
+                this.sendEvent('breakpoint', { reason: 'changed', breakpoint });
+            }
+        }
+        this.engineReady = true;
+        if (this.configurationDone) {
+            await connection.request('configurationDone');
+        }
+    }
+
+    private handleEngineEvent(event: EngineEvent) {
+        switch (event.event) {
+            case 'stopped':
+                this.sendEvent('stopped', {
+                    reason: event.reason || 'pause',
+                    description: event.description,
+                    threadId: THREAD_ID,
+                    allThreadsStopped: true
+                });
+                break;
+            case 'continued':
+                this.sendEvent('continued', { threadId: THREAD_ID, allThreadsContinued: true });
+                break;
+        }
+    }
+
+    // "scripts/player.wren" (engine) <-> absolute path (VS Code)
+    private toLocalPath(file: string): string {
+        const relativePath = file.replace(/^\[game\][\\/]/, '');
+        return path.join(this.plan.debug?.projectFolder || this.plan.cwd, relativePath);
+    }
+
+    private toEnginePath(localPath: string): string {
+        return path.relative(this.plan.debug?.projectFolder || this.plan.cwd, localPath).replace(/\\/g, '/');
+    }
+
+    private async run() {
+        let exitCode = 0;
+        for (const step of this.plan.steps) {
+            if (this.stopRequested) {
+                break;
+            }
+            this.output('console', `${step.label}\n`);
+            exitCode = await this.runStep(step);
+            if (exitCode !== 0) {
+                break;
+            }
+        }
+        this.finish(exitCode);
+    }
+
+    private runStep(step: XsLaunchStep): Promise<number> {
+        return new Promise(resolve => {
+            const debug = step.debug ? this.plan.debug : undefined;
+            let child: ChildProcess;
+            try {
+                child = spawn(this.plan.executable, step.args, {
+                    cwd: this.plan.cwd,
+                    env: { ...process.env, ...this.plan.env, ...(debug && { XS_DEBUG_PORT: String(debug.port) }) }
+                });
+            } catch (error) {
+                this.output('stderr', `Failed to start ${this.plan.executable}: ${error}\n`);
+                resolve(-1);
+                return;
+            }
+            this.process = child;
+
+            child.stdout?.setEncoding('utf8');
+            child.stderr?.setEncoding('utf8');
+            child.stdout?.on('data', (data: string) => this.output('stdout', data));
+            child.stderr?.on('data', (data: string) => this.output('stderr', data));
+
+            // 'error' (e.g. executable not found) and 'close' can both fire; settle once
+            let settled = false;
+            const settle = (code: number) => {
+                if (!settled) {
+                    settled = true;
+                    this.process = undefined;
+                    this.connection?.close();
+                    resolve(code);
+                }
+            };
+            child.on('error', error => {
+                this.output('stderr', `Failed to start ${this.plan.executable}: ${error.message}\n`);
+                settle(-1);
+            });
+            child.on('close', (code, signal) => {
+                settle(code ?? (signal ? 1 : 0));
+            });
+
+            if (debug) {
+                this.connect(child, debug.port);
+            }
+        });
+    }
+
+    private stop() {
+        this.stopRequested = true;
+        this.connection?.close();
+        if (this.process && this.process.exitCode === null) {
+            this.process.kill();
+        }
+    }
+
+    private finish(exitCode: number) {
+        if (this.finished) {
+            return;
+        }
+        this.finished = true;
+        this.output('console', this.stopRequested ? 'xs stopped\n' : `xs exited with code ${exitCode}\n`);
+        this.sendEvent('exited', { exitCode });
+        this.sendEvent('terminated');
+    }
+
+    private output(category: DebugEventBodies['output']['category'], output: string) {
+        this.sendEvent('output', { category, output });
+    }
+
+    private respond(request: DebugRequest, body?: DebugResponseBodies[keyof DebugResponseBodies], error?: string) {
+        this.sendMessage.fire({
+            seq: this.sequence++,
+            type: 'response',
+            request_seq: request.seq,
+            command: request.command,
+            success: error === undefined,
+            ...(error !== undefined && { message: error }),
+            ...(body !== undefined && { body })
+        } as vscode.DebugProtocolMessage);
+    }
+
+    private sendEvent<E extends keyof DebugEventBodies>(event: E, body?: DebugEventBodies[E]) {
+        this.sendMessage.fire({
+            seq: this.sequence++,
+            type: 'event',
+            event,
+            ...(body !== undefined && { body })
+        } as vscode.DebugProtocolMessage);
+    }
+}
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+
+/*
+ * xs engine debug protocol
+ *
+ * When started with the XS_DEBUG_PORT environment variable, the engine listens on that port
+ * (127.0.0.1) and waits for the debugger to connect before running any game script. Messages
+ * are JSON objects, one per line, in both directions.
+ *
+ * Requests (debugger -> engine) carry an id; the engine answers each with a response:
+ *   { "id": 1, "command": "setBreakpoints", "args": { "file": "game.wren", "lines": [10, 20] } }
+ *   { "id": 1, "result": { "lines": [10, null] } }          // resolved line, or null if unverified
+ *   { "id": 2, "error": "Unknown command" }
+ *
+ * Commands:
+ *   setBreakpoints     { file, lines }       -> { lines: (number | null)[] }
+ *   configurationDone                        -> {}    start (or resume) running the game
+ *   continue | pause | stepIn | stepOver | stepOut -> {}
+ *   stackTrace                               -> { frames: [{ function, file, line }] }   top frame first
+ *   scopes             { frame }             -> { scopes: [{ name, reference }] }
+ *   variables          { reference }         -> { variables: [{ name, value, type?, reference? }] }
+ *   evaluate           { expression, frame? } -> { value, type?, reference? }
+ *
+ * Events (engine -> debugger):
+ *   { "event": "stopped", "reason": "breakpoint" | "step" | "pause" | "exception", "description"?: string }
+ *   { "event": "continued" }
+ *
+ * Files are paths relative to the project folder using forward slashes ("scripts/player.wren").
+ * A reference of 0 (or none) means a variable has no children.
+ */
+
+export interface EngineStackFrame {
+    function: string;
+    file: string;
+    line: number;
+}
+
+export interface EngineVariable {
+    name: string;
+    value: string;
+    type?: string;
+    reference?: number;
+}
+
+export type EngineEvent =
+    | { event: 'stopped'; reason?: 'breakpoint' | 'step' | 'pause' | 'exception'; description?: string }
+    | { event: 'continued' };
+
+// A line from the engine: an event, or the response to a request
+type EngineMessage = EngineEvent | { id: number; result?: unknown; error?: unknown };
+
+export class EngineConnection {
+    private readonly eventEmitter = new vscode.EventEmitter<EngineEvent>();
+    readonly onEvent = this.eventEmitter.event;
+    private readonly closeEmitter = new vscode.EventEmitter<void>();
+    readonly onClose = this.closeEmitter.event;
+
+    private nextId = 1;
+    private buffer = '';
+    private readonly pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+    private constructor(private readonly socket: net.Socket) {
+        socket.setEncoding('utf8');
+        socket.on('data', (data: string) => this.receive(data));
+        socket.on('close', () => {
+            for (const request of this.pending.values()) {
+                request.reject(new Error('Engine disconnected'));
+            }
+            this.pending.clear();
+            this.closeEmitter.fire();
+        });
+        // Errors are followed by 'close'
+        socket.on('error', () => {});
+    }
+
+    static connect(port: number): Promise<EngineConnection> {
+        return new Promise((resolve, reject) => {
+            const socket = net.connect(port, '127.0.0.1');
+            socket.once('connect', () => {
+                socket.removeListener('error', reject);
+                resolve(new EngineConnection(socket));
+            });
+            socket.once('error', reject);
+        });
+    }
+
+    // `T` is the result the command is documented to return above
+    request<T = unknown>(command: string, args?: object): Promise<T> {
+        const id = this.nextId++;
+        return new Promise<T>((resolve, reject) => {
+            this.pending.set(id, { resolve: result => resolve(result as T), reject });
+            this.socket.write(JSON.stringify({ id, command, ...(args && { args }) }) + '\n');
+        });
+    }
+
+    close() {
+        this.socket.destroy();
+    }
+
+    private receive(data: string) {
+        this.buffer += data;
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\n')) >= 0) {
+            const line = this.buffer.substring(0, newline).trim();
+            this.buffer = this.buffer.substring(newline + 1);
+            if (line) {
+                this.handleMessage(line);
+            }
+        }
+    }
+
+    private handleMessage(line: string) {
+        let message: EngineMessage;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            // Not part of the protocol (e.g. stray engine output); nothing to answer
+            return;
+        }
+
+        if ('event' in message) {
+            this.eventEmitter.fire(message);
+            return;
+        }
+
+        const request = this.pending.get(message.id);
+        if (!request) {
+            return;
+        }
+        this.pending.delete(message.id);
+        if (message.error !== undefined) {
+            request.reject(new Error(String(message.error)));
+        } else {
+            request.resolve(message.result ?? {});
+        }
+    }
+}
+
+// Ask the OS for a port that is free right now, to pass to the engine
+export function findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.unref();
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const port = (server.address() as net.AddressInfo).port;
+            server.close(() => resolve(port));
+        });
+    });
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PackageInfo, encodePackageVersion } from './package/packageParser';
+
+// Platform detection utilities
+export function isWindows(): boolean {
+    return process.platform === 'win32';
+}
+
+export function isMacOS(): boolean {
+    return process.platform === 'darwin';
+}
+
+export function isLinux(): boolean {
+    return process.platform === 'linux';
+}
+
+// Get platform-appropriate file dialog filters for executables
+export function getExecutableFilters(): { [name: string]: string[] } | undefined {
+    if (isWindows()) {
+        return { 'Executables': ['exe'] };
+    }
+    if (isMacOS()) {
+        return { 'Applications': ['app'] };
+    }
+    if (isLinux()) {
+        return undefined;
+    }
+    return undefined;
+}
+
+// Return the configured engine path, or fall back to 'xs' from PATH
+export function getEnginePath(config: vscode.WorkspaceConfiguration): string {
+    return config.get<string>('enginePath', '') || 'xs';
+}
+
+// Resolve the configured working directory against the project folder
+export function getWorkingDirectory(config: vscode.WorkspaceConfiguration, projectFolder: string): string {
+    return (config.get<string>('workingDirectory', '') || '${workspaceFolder}')
+        .replace('${workspaceFolder}', projectFolder);
+}
+
+// Resolve the actual executable path from a user-selected path
+// On macOS, if user selects an .app bundle, find the executable inside it
+export async function resolveExecutablePath(selectedPath: string): Promise<string> {
+    if (isMacOS() && selectedPath.endsWith('.app')) {
+        // Look for executable inside the .app bundle
+        // Standard location: AppName.app/Contents/MacOS/<executable>
+        const macOSDir = path.join(selectedPath, 'Contents', 'MacOS');
+        const appName = path.basename(selectedPath, '.app');
+
+        // Try common executable names
+        const possibleNames = [
+            appName,           // Same name as app (e.g., xs.app -> xs)
+            appName.toLowerCase(),
+            'xs',
+            'XS'
+        ];
+
+        const fs = require('fs').promises;
+        for (const name of possibleNames) {
+            const execPath = path.join(macOSDir, name);
+            try {
+                await fs.access(execPath, require('fs').constants.X_OK);
+                return execPath;
+            } catch {
+                // Try next name
+            }
+        }
+
+        // If we can't find a known executable, try to find any executable in MacOS dir
+        try {
+            const files = await fs.readdir(macOSDir);
+            if (files.length > 0) {
+                // Return the first file (usually there's only one main executable)
+                return path.join(macOSDir, files[0]);
+            }
+        } catch {
+            // Fall through to return original path
+        }
+    }
+
+    return selectedPath;
+}
+
+// Ask the engine for its version ("YY.BuildNumber"); throws if the engine can't be run
+export async function queryEngineVersion(enginePath: string): Promise<string> {
+    const { exec } = require('child_process');
+    const { promisify } = require('util');
+    const execAsync = promisify(exec);
+
+    const executablePath = await resolveExecutablePath(enginePath);
+    const { stdout } = await execAsync(`"${executablePath}" version`);
+    return stdout.trim();
+}
+
+export interface PackageVersionMismatch {
+    packageVersion: string;
+    engineVersion: string;
+}
+
+// Compare the version a package was built with against the configured engine's version
+// Returns undefined when they match or when the engine version is unknown
+export function getPackageVersionMismatch(packageInfo: PackageInfo, engineVersion: string | undefined): PackageVersionMismatch | undefined {
+    if (engineVersion === undefined) {
+        return undefined;
+    }
+    let encodedEngineVersion: number;
+    try {
+        encodedEngineVersion = encodePackageVersion(engineVersion);
+    } catch {
+        return undefined;
+    }
+
+    if (encodedEngineVersion === packageInfo.version) {
+        return undefined;
+    }
+    return { packageVersion: packageInfo.versionString, engineVersion };
+}
+
+// A registered engine install and the version it reports (undefined when it can't be run)
+export interface EngineInstall {
+    path: string;
+    version: string | undefined;
+}
+
+// Whether an engine version satisfies a pinned one: "24.310" requires that build,
+// "24" accepts any build of that year
+export function matchesEngineVersion(version: string, required: string): boolean {
+    const [major, build] = version.trim().split('.');
+    const [requiredMajor, requiredBuild] = required.trim().split('.');
+    if (Number(major) !== Number(requiredMajor)) {
+        return false;
+    }
+    return requiredBuild === undefined || requiredBuild === '' || Number(build) === Number(requiredBuild);
+}
+
+// Order "YY.BuildNumber" versions numerically ("24.99" < "24.100")
+export function compareEngineVersions(a: string, b: string): number {
+    const [majorA, buildA] = a.trim().split('.').map(Number);
+    const [majorB, buildB] = b.trim().split('.').map(Number);
+    return (majorA || 0) - (majorB || 0) || (buildA || 0) - (buildB || 0);
+}
+
+// The newest install that satisfies a pinned version
+export function selectEngineInstall(installs: EngineInstall[], required: string): EngineInstall | undefined {
+    let best: EngineInstall | undefined;
+    for (const install of installs) {
+        if (!install.version || !matchesEngineVersion(install.version, required)) {
+            continue;
+        }
+        if (!best || compareEngineVersions(install.version, best.version!) > 0) {
+            best = install;
+        }
+    }
+    return best;
+}
@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EngineInstall, getEnginePath, getExecutableFilters, queryEngineVersion, selectEngineInstall } from './engine';
+
+// The engine a project runs with
+export interface ProjectEngine {
+    path: string;
+    // Undefined when the engine can't be run
+    version: string | undefined;
+    // Version pinned by project.json ("EngineVersion") or xs.engineVersion
+    required?: string;
+    // Set when the pinned version is not among the registered engines; path is then the default engine
+    missing?: boolean;
+}
+
+// Keeps track of the registered engine installs (xs.engines plus xs.enginePath) and picks
+// the one a project needs: the newest install matching its pinned version, else the default
+export class EngineManager implements vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    // Fires when the registered engines or pinned versions change
+    readonly onDidChange = this.changeEmitter.event;
+
+    private readonly versions = new Map<string, Promise<string | undefined>>();
+    // Projects already warned about a missing pinned version, this session
+    private readonly warned = new Set<string>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        const projectFiles = vscode.workspace.createFileSystemWatcher('**/project.json');
+        this.disposables.push(
+            projectFiles,
+            projectFiles.onDidChange(() => this.changeEmitter.fire()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('xs.enginePath') || e.affectsConfiguration('xs.engines')) {
+                    this.versions.clear();
+                    this.changeEmitter.fire();
+                } else if (e.affectsConfiguration('xs.engineVersion')) {
+                    this.changeEmitter.fire();
+                }
+            })
+        );
+    }
+
+    // The version an engine reports, run once per path
+    getVersion(enginePath: string): Promise<string | undefined> {
+        let version = this.versions.get(enginePath);
+        if (!version) {
+            version = queryEngineVersion(enginePath).catch(() => undefined);
+            this.versions.set(enginePath, version);
+        }
+        return version;
+    }
+
+    async getInstalls(): Promise<EngineInstall[]> {
+        const config = vscode.workspace.getConfiguration('xs');
+        const paths = [getEnginePath(config), ...config.get<string[]>('engines', [])];
+        const unique = paths.filter((enginePath, index) => paths.indexOf(enginePath) === index);
+        return Promise.all(unique.map(async enginePath => ({ path: enginePath, version: await this.getVersion(enginePath) })));
+    }
+
+    // project.json "EngineVersion" takes precedence over the xs.engineVersion setting
+    async getRequiredVersion(projectFolder: vscode.Uri): Promise<string | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(projectFolder, 'project.json'));
+            const required = JSON.parse(content.toString()).EngineVersion;
+            if (required !== undefined && required !== '') {
+                return String(required);
+            }
+        } catch {
+            // No readable project.json; fall back to the setting
+        }
+        return vscode.workspace.getConfiguration('xs', projectFolder).get<string>('engineVersion', '') || undefined;
+    }
+
+    async resolve(projectFolder: vscode.Uri | undefined): Promise<ProjectEngine> {
+        const defaultPath = getEnginePath(vscode.workspace.getConfiguration('xs'));
+        const required = projectFolder && await this.getRequiredVersion(projectFolder);
+        if (!required) {
+            return { path: defaultPath, version: await this.getVersion(defaultPath) };
+        }
+
+        const install = selectEngineInstall(await this.getInstalls(), required);
+        if (install) {
+            return { path: install.path, version: install.version, required };
+        }
+        return { path: defaultPath, version: await this.getVersion(defaultPath), required, missing: true };
+    }
+
+    // The engine to run a project with; warns (once per project) when its pinned version is not installed
+    async getEnginePath(projectFolder: vscode.Uri | undefined): Promise<string> {
+        const engine = await this.resolve(projectFolder);
+        if (engine.missing && projectFolder) {
+            this.warnMissing(projectFolder, engine);
+        }
+        return engine.path;
+    }
+
+    warnMissing(projectFolder: vscode.Uri, engine: ProjectEngine) {
+        const key = `${projectFolder.toString()}@${engine.required}`;
+        if (this.warned.has(key)) {
+            return;
+        }
+        this.warned.add(key);
+
+        const fallback = engine.version ? `xs ${engine.version}` : 'the default engine';
+        vscode.window.showWarningMessage(
+            `${path.basename(projectFolder.fsPath)} requires xs ${engine.required}, which is not installed. Using ${fallback} instead.`,
+            'Add Engine...', 'Manage Engines'
+        ).then(async selection => {
+            if (selection === 'Add Engine...') {
+                await this.addEngine();
+            } else if (selection === 'Manage Engines') {
+                await this.manage(projectFolder);
+            }
+        });
+    }
+
+    // Register an engine install picked in a file dialog
+    async addEngine(): Promise<EngineInstall | undefined> {
+        const filters = getExecutableFilters();
+        const fileUri = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Add xs engine',
+            ...(filters && { filters })
+        });
+        if (!fileUri || !fileUri[0]) {
+            return undefined;
+        }
+
+        const enginePath = fileUri[0].fsPath;
+        this.versions.delete(enginePath);
+        const version = await this.getVersion(enginePath);
+        if (!version) {
+            vscode.window.showErrorMessage(`${enginePath} did not report an xs version; is it an xs engine?`);
+            return undefined;
+        }
+
+        const config = vscode.workspace.getConfiguration('xs');
+        const engines = config.get<string[]>('engines', []);
+        if (!engines.includes(enginePath)) {
+            await config.update('engines', [...engines, enginePath], vscode.ConfigurationTarget.Global);
+        }
+        vscode.window.showInformationMessage(`Added xs ${version} (${enginePath})`);
+        return { path: enginePath, version };
+    }
+
+    // Quick pick over the registered engines: add, remove, make default, or pin for a project
+    async manage(projectFolder: vscode.Uri | undefined) {
+        const config = vscode.workspace.getConfiguration('xs');
+        const defaultPath = getEnginePath(config);
+        const current = await this.resolve(projectFolder);
+
+        type Item = vscode.QuickPickItem & { install?: EngineInstall };
+        const items: Item[] = (await this.getInstalls()).map(install => ({
+            label: install.version ? `xs ${install.version}` : '$(error) not working',
+            description: install.path,
+            detail: [
+                install.path === defaultPath ? 'default' : '',
+                projectFolder && install.path === current.path ? `used by ${path.basename(projectFolder.fsPath)}` : ''
+            ].filter(Boolean).join(', ') || undefined,
+            install
+        }));
+        items.push({ label: '$(add) Add engine...' });
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: current.required
+                ? `${projectFolder ? path.basename(projectFolder.fsPath) : 'The project'} requires xs ${current.required}`
+                : 'Registered xs engines'
+        });
+        if (!selection) {
+            return;
+        }
+        if (!selection.install) {
+            await this.addEngine();
+            return;
+        }
+
+        const install = selection.install;
+        const actions = ['Use as default'];
+        if (projectFolder && install.version) {
+            actions.push(`Pin ${path.basename(projectFolder.fsPath)} to xs ${install.version}`);
+        }
+        if (config.get<string[]>('engines', []).includes(install.path)) {
+            actions.push('Remove');
+        }
+        const action = await vscode.window.showQuickPick(actions, { placeHolder: install.path });
+        if (action === 'Use as default') {
+            await config.update('enginePath', install.path, vscode.ConfigurationTarget.Global);
+        } else if (action === 'Remove') {
+            await config.update('engines', config.get<string[]>('engines', []).filter(enginePath => enginePath !== install.path),
+                vscode.ConfigurationTarget.Global);
+        } else if (action && projectFolder && install.version) {
+            await pinEngineVersion(projectFolder, install.version);
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.changeEmitter.dispose();
+    }
+}
+
+// Set "EngineVersion" in a project's project.json, editing the text so the file keeps its formatting
+async function pinEngineVersion(projectFolder: vscode.Uri, version: string) {
+    const projectJsonUri = vscode.Uri.joinPath(projectFolder, 'project.json');
+    const document = await vscode.workspace.openTextDocument(projectJsonUri);
+    const text = document.getText();
+    const edit = new vscode.WorkspaceEdit();
+
+    const existing = /"EngineVersion"\s*:\s*("(?:[^"\\]|\\.)*"|[\d.]+)/.exec(text);
+    if (existing) {
+        const start = existing.index + existing[0].length - existing[1].length;
+        edit.replace(projectJsonUri, new vscode.Range(document.positionAt(start), document.positionAt(start + existing[1].length)), `"${version}"`);
+    } else {
+        const brace = text.indexOf('{');
+        if (brace < 0) {
+            vscode.window.showErrorMessage(`Cannot pin the engine version: ${projectJsonUri.fsPath} is not a JSON object`);
+            return;
+        }
+        const indent = /\n([ \t]+)"/.exec(text)?.[1] ?? '    ';
+        const separator = /^\s*\}/.test(text.substring(brace + 1)) ? '' : ',';
+        edit.insert(projectJsonUri, document.positionAt(brace + 1), `\n${indent}"EngineVersion": "${version}"${separator}`);
+    }
+    await vscode.workspace.applyEdit(edit);
+    await document.save();
+}
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Wren reports script locations as "[module line N]", followed by " in Function" for
+// stack frames or by the message for compile errors:
+//   Player does not implement 'jump()'.
+//   [scripts/player line 12] in Player.update(_)
+//   [game line 40] in (script)
+//   [./game line 3] Error at 'foo': Expect expression.
+export const SCRIPT_LOCATION_PATTERN = /\[([^\]\r\n]+?) line (\d+)\]/g;
+const STACK_FRAME_PATTERN = /^\s*\[([^\]]+?) line (\d+)\] in (.*)$/;
+const COMPILE_ERROR_PATTERN = /^\s*\[([^\]]+?) line (\d+)\] (?:\[Error\] )?(Error.*)$/;
+
+export interface ScriptLocation {
+    module: string;
+    line: number;
+    function?: string;
+}
+
+export interface ScriptError {
+    message: string;
+    location: ScriptLocation;
+    // Remaining stack frames, innermost first
+    stack: ScriptLocation[];
+}
+
+// Collects Wren errors from engine output, one line at a time
+export class WrenErrorParser {
+    readonly errors: ScriptError[] = [];
+    private current: ScriptError | undefined;
+    private lastMessage = '';
+
+    feed(line: string) {
+        const frame = STACK_FRAME_PATTERN.exec(line);
+        if (frame) {
+            const location = { module: frame[1], line: Number(frame[2]), function: frame[3].trim() };
+            if (this.current) {
+                this.current.stack.push(location);
+            } else {
+                // The runtime error message is the line printed right before the first frame
+                this.current = { message: this.lastMessage || 'Runtime error', location, stack: [] };
+                this.errors.push(this.current);
+            }
+            return;
+        }
+
+        this.current = undefined;
+        const compileError = COMPILE_ERROR_PATTERN.exec(line);
+        if (compileError) {
+            this.errors.push({
+                message: compileError[3].trim(),
+                location: { module: compileError[1], line: Number(compileError[2]) },
+                stack: []
+            });
+            this.lastMessage = '';
+            return;
+        }
+        this.lastMessage = line.trim();
+    }
+}
+
+// Splits streamed output into lines. The last line may come without a newline, so it is only
+// complete once the stream has ended: flush() it then
+export class OutputLineBuffer {
+    private partialLine = '';
+
+    push(data: string): string[] {
+        const lines = (this.partialLine + data).split(/\r?\n/);
+        this.partialLine = lines.pop() || '';
+        return lines;
+    }
+
+    flush(): string | undefined {
+        const line = this.partialLine;
+        this.partialLine = '';
+        return line ? line : undefined;
+    }
+}
+
+// Map a Wren module name ("game", "./scripts/player", "[game]/scripts/player.wren") to its file
+export function resolveScriptUri(projectFolder: string, module: string): vscode.Uri {
+    let relativePath = module.replace(/^\[game\][\\/]/, '').replace(/^\.[\\/]/, '');
+    if (!path.extname(relativePath)) {
+        relativePath += '.wren';
+    }
+    if (path.isAbsolute(relativePath)) {
+        return vscode.Uri.file(relativePath);
+    }
+
+    const candidate = path.join(projectFolder, relativePath);
+    if (!fs.existsSync(candidate)) {
+        // Modules imported by name are often looked up next to the main script, in scripts/
+        const inScripts = path.join(projectFolder, 'scripts', relativePath);
+        if (fs.existsSync(inScripts)) {
+            return vscode.Uri.file(inScripts);
+        }
+    }
+    return vscode.Uri.file(candidate);
+}
+
+// Problems-panel diagnostics for parsed errors, grouped by file
+export function createScriptDiagnostics(projectFolder: string, errors: ScriptError[]): Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }> {
+    const byFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+    for (const error of errors) {
+        const uri = resolveScriptUri(projectFolder, error.location.module);
+        const line = Math.max(0, error.location.line - 1);
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+            error.message,
+            vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = 'xs';
+        diagnostic.relatedInformation = error.stack.map(frame => {
+            const frameLine = Math.max(0, frame.line - 1);
+            return new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(resolveScriptUri(projectFolder, frame.module), new vscode.Position(frameLine, 0)),
+                `called from ${frame.function || frame.module}`
+            );
+        });
+
+        const key = uri.toString();
+        const file = byFile.get(key) || { uri, diagnostics: [] };
+        file.diagnostics.push(diagnostic);
+        byFile.set(key, file);
+    }
+    return byFile;
+}
+
+// Makes "[module line N]" in the xs output channel open the script at that line
+export class ScriptLocationLinkProvider implements vscode.DocumentLinkProvider {
+    constructor(private readonly getProjectFolder: () => string | undefined) {}
+
+    provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        const projectFolder = this.getProjectFolder();
+        if (!projectFolder) {
+            return [];
+        }
+
+        const links: vscode.DocumentLink[] = [];
+        const text = document.getText();
+        for (const match of text.matchAll(SCRIPT_LOCATION_PATTERN)) {
+            const start = document.positionAt(match.index!);
+            const end = document.positionAt(match.index! + match[0].length);
+            const target = resolveScriptUri(projectFolder, match[1]).with({ fragment: `L${match[2]}` });
+            const link = new vscode.DocumentLink(new vscode.Range(start, end), target);
+            link.tooltip = 'Open script';
+            links.push(link);
+        }
+        return links;
+    }
+}
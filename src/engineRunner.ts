@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { XsLaunchStep } from './debug/debugAdapter';
+import { OutputLineBuffer, ScriptError, ScriptLocationLinkProvider, WrenErrorParser, createScriptDiagnostics } from './engineOutput';
+
+// How long a stopped game gets to exit before the next run starts anyway
+const KILL_TIMEOUT = 2000;
+
+// How a step ended: its exit code, or the signal that killed it (e.g. a crash)
+export type EngineExit = number | NodeJS.Signals;
+
+export function describeExit(exit: EngineExit): string {
+    return typeof exit === 'number' ? `exited with code ${exit}` : `was killed by ${exit}`;
+}
+
+// Runs the engine as a child process for the run and package commands, streaming its
+// output to the "xs" output channel and turning Wren errors into diagnostics
+export class EngineRunner implements vscode.Disposable {
+    private readonly output = vscode.window.createOutputChannel('xs', 'xs-output');
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('xs-engine');
+    private readonly linkProvider: vscode.Disposable;
+    private readonly runningEmitter = new vscode.EventEmitter<boolean>();
+    // Fires when a run starts or ends
+    readonly onDidChangeRunning = this.runningEmitter.event;
+
+    private process: ChildProcess | undefined;
+    private projectFolder: string | undefined;
+    private runId = 0;
+    private running = false;
+
+    constructor() {
+        this.linkProvider = vscode.languages.registerDocumentLinkProvider(
+            { language: 'xs-output' },
+            new ScriptLocationLinkProvider(() => this.projectFolder)
+        );
+    }
+
+    // Run the steps one after another, stopping at the first failure. Resolves with how the
+    // last step exited, or undefined when the run was stopped
+    async run(
+        executable: string,
+        cwd: string,
+        projectFolder: string,
+        steps: XsLaunchStep[],
+        env: { [name: string]: string } = {}
+    ): Promise<EngineExit | undefined> {
+        const runId = ++this.runId;
+        // The previous game may hold the window or audio device until it has exited
+        await this.kill();
+        if (runId !== this.runId) {
+            return undefined;
+        }
+        this.projectFolder = projectFolder;
+        this.diagnostics.clear();
+        this.output.show(true);
+
+        const parser = new WrenErrorParser();
+        let exit: EngineExit = 0;
+        for (const step of steps) {
+            this.output.appendLine(`> ${step.label}`);
+            // Only the game counts as running, for the Stop and Restart buttons and restart on save
+            if (step.debug) {
+                this.setRunning(true);
+            }
+            exit = await this.runStep(executable, cwd, env, step, parser);
+            if (runId !== this.runId) {
+                return undefined;
+            }
+            if (exit !== 0) {
+                break;
+            }
+        }
+        this.output.appendLine(`> ${describeExit(exit)}`);
+        this.setRunning(false);
+        return exit;
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    // Project folder of the current run, if any
+    get runningProject(): string | undefined {
+        return this.running ? this.projectFolder : undefined;
+    }
+
+    stop() {
+        this.runId++;
+        this.kill();
+        this.setRunning(false);
+    }
+
+    showOutput() {
+        this.output.show();
+    }
+
+    // Replace the reported Wren errors; the xs tasks, which run the engine in their own
+    // terminal, report theirs here too
+    showScriptErrors(projectFolder: string, errors: ScriptError[]) {
+        this.diagnostics.clear();
+        for (const { uri, diagnostics } of createScriptDiagnostics(projectFolder, errors).values()) {
+            this.diagnostics.set(uri, diagnostics);
+        }
+    }
+
+    dispose() {
+        this.stop();
+        this.output.dispose();
+        this.diagnostics.dispose();
+        this.linkProvider.dispose();
+        this.runningEmitter.dispose();
+    }
+
+    // Kill the current process; resolves once it has exited, or after a grace period
+    private kill(): Promise<void> {
+        const child = this.process;
+        this.process = undefined;
+        if (!child || child.exitCode !== null || child.signalCode !== null) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => {
+            const timer = setTimeout(resolve, KILL_TIMEOUT);
+            child.once('close', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            child.kill();
+        });
+    }
+
+    private setRunning(running: boolean) {
+        if (this.running !== running) {
+            this.running = running;
+            this.runningEmitter.fire(running);
+        }
+    }
+
+    private runStep(
+        executable: string,
+        cwd: string,
+        env: { [name: string]: string },
+        step: XsLaunchStep,
+        parser: WrenErrorParser
+    ): Promise<EngineExit> {
+        return new Promise(resolve => {
+            let child: ChildProcess;
+            try {
+                child = spawn(executable, step.args, { cwd, env: { ...process.env, ...env } });
+            } catch (error) {
+                this.output.appendLine(`Failed to start ${executable}: ${error}`);
+                resolve(-1);
+                return;
+            }
+            this.process = child;
+
+            const buffers: OutputLineBuffer[] = [];
+            const handleOutput = (stream: NodeJS.ReadableStream | null) => {
+                const buffer = new OutputLineBuffer();
+                buffers.push(buffer);
+                stream?.setEncoding('utf8');
+                stream?.on('data', (data: string) => {
+                    this.output.append(data);
+                    const lines = buffer.push(data);
+                    if (lines.length > 0) {
+                        lines.forEach(line => parser.feed(line));
+                        this.publish(parser);
+                    }
+                });
+            };
+            handleOutput(child.stdout);
+            handleOutput(child.stderr);
+
+            // A last line without a newline is complete once the process has exited
+            const flushOutput = () => {
+                const lines = buffers.map(buffer => buffer.flush()).filter((line): line is string => line !== undefined);
+                if (lines.length > 0) {
+                    // Keep the "> exited" line on a line of its own
+                    this.output.appendLine('');
+                    lines.forEach(line => parser.feed(line));
+                    this.publish(parser);
+                }
+            };
+
+            // 'error' (e.g. executable not found) and 'close' can both fire; settle once
+            let settled = false;
+            const settle = (exit: EngineExit) => {
+                if (!settled) {
+                    settled = true;
+                    if (this.process === child) {
+                        this.process = undefined;
+                    }
+                    resolve(exit);
+                }
+            };
+            child.on('error', error => {
+                this.output.appendLine(`Failed to start ${executable}: ${error.message}`);
+                settle(-1);
+            });
+            child.on('close', (code, signal) => {
+                flushOutput();
+                settle(code ?? signal ?? -1);
+            });
+        });
+    }
+
+    private publish(parser: WrenErrorParser) {
+        if (!this.projectFolder || parser.errors.length === 0) {
+            return;
+        }
+        this.showScriptErrors(this.projectFolder, parser.errors);
+    }
+}
@@ -1,36 +1,34 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { PackageEditorProvider } from './packageEditor';
+import { PackageEditorProvider } from './packageEditor/packageEditor';
+import { PackageFileSystemProvider } from './package/packageFileSystem';
+import { PackageParser } from './package/packageParser';
+import { promptExtractPackageEntries } from './package/packageExtract';
+import { PackageDiffPanel } from './packageDiff/packageDiffPanel';
+import { checkPackageDrift, describeDrift, hasDrift } from './package/packageDrift';
+import { findProjectFolderForPackage } from './package/projectFiles';
+import { buildPackage } from './package/packageBuilder';
+import { BudgetViolation, createSizeReport, loadPackageBudget, writeSizeReport } from './package/packageReport';
+import { encodePackageVersion } from './package/packageParser';
 import { AnimationEditorProvider } from './animationEditor/animationEditor';
 import { SpriteEditorProvider } from './spriteEditor/spriteEditor';
 import { TilesEditorProvider } from './tilesEditor/tilesEditor';
-
-// Platform detection utilities
-function isWindows(): boolean {
-    return process.platform === 'win32';
-}
-
-function isMacOS(): boolean {
-    return process.platform === 'darwin';
-}
-
-function isLinux(): boolean {
-    return process.platform === 'linux';
-}
-
-// Get platform-appropriate file dialog filters for executables
-function getExecutableFilters(): { [name: string]: string[] } | undefined {
-    if (isWindows()) {
-        return { 'Executables': ['exe'] };
-    }
-    if (isMacOS()) {
-        return { 'Applications': ['app'] };
-    }
-    if (isLinux()) {
-        return undefined;
-    }
-    return undefined;
-}
+import { AssetDiagnostics } from './assets/assetDiagnostics';
+import { XsDebugAdapter, XsLaunchStep } from './debug/debugAdapter';
+import { findFreePort } from './debug/engineConnection';
+import { EngineRunner, describeExit } from './engineRunner';
+import { XsTaskProvider } from './taskProvider';
+import { XsProject, XsProjects } from './projects';
+import { reportInvalidProjects, XsProjectDiagnostics } from './projectValidation';
+import { RunProfile, findRunProfile, pickRunProfile, resolveRunOptions } from './runProfiles';
+import { EngineManager } from './engineManager';
+import { WrenIndex } from './wren/wrenIndex';
+import { WrenSymbolProvider } from './wren/wrenSymbols';
+import { WrenApiProvider } from './wren/wrenApi';
+import { WrenApiLanguageProvider } from './wren/wrenApiProviders';
+import { WrenDiagnostics } from './wren/wrenDiagnostics';
+import { WrenFormattingProvider } from './wren/wrenFormatting';
+import { getExecutableFilters, getPackageVersionMismatch, getWorkingDirectory, isLinux, isMacOS, isWindows, queryEngineVersion, resolveExecutablePath } from './engine';
 
 // Get the executable name for display in messages
 function getExecutableName(): string {
@@ -46,91 +44,78 @@ function getExecutableName(): string {
     return 'xs';
 }
 
-// Return the configured engine path, or fall back to 'xs' from PATH
-function getEnginePath(config: vscode.WorkspaceConfiguration): string {
-    return config.get<string>('enginePath', '') || 'xs';
-}
-
-// Resolve the actual executable path from a user-selected path
-// On macOS, if user selects an .app bundle, find the executable inside it
-async function resolveExecutablePath(selectedPath: string): Promise<string> {
-    if (isMacOS() && selectedPath.endsWith('.app')) {
-        // Look for executable inside the .app bundle
-        // Standard location: AppName.app/Contents/MacOS/<executable>
-        const macOSDir = path.join(selectedPath, 'Contents', 'MacOS');
-        const appName = path.basename(selectedPath, '.app');
-
-        // Try common executable names
-        const possibleNames = [
-            appName,           // Same name as app (e.g., xs.app -> xs)
-            appName.toLowerCase(),
-            'xs',
-            'XS'
-        ];
-
-        const fs = require('fs').promises;
-        for (const name of possibleNames) {
-            const execPath = path.join(macOSDir, name);
-            try {
-                await fs.access(execPath, require('fs').constants.X_OK);
-                return execPath;
-            } catch {
-                // Try next name
-            }
-        }
-
-        // If we can't find a known executable, try to find any executable in MacOS dir
+// Package a project with the built-in writer instead of the engine binary
+// The package version comes from xs.package.version, or from the project's engine
+async function packageWithBuiltInWriter(
+    config: vscode.WorkspaceConfiguration,
+    enginePath: string,
+    projectFolder: string,
+    outputPath: string
+): Promise<boolean> {
+    let versionString = config.get<string>('package.version', '');
+    if (!versionString) {
         try {
-            const files = await fs.readdir(macOSDir);
-            if (files.length > 0) {
-                // Return the first file (usually there's only one main executable)
-                return path.join(macOSDir, files[0]);
-            }
+            versionString = await queryEngineVersion(enginePath);
         } catch {
-            // Fall through to return original path
+            vscode.window.showErrorMessage(
+                'Cannot determine the package version: xs engine not found. Set xs.package.version to package without the engine.',
+                'Open Settings'
+            ).then(selection => {
+                if (selection === 'Open Settings') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'xs.package.version');
+                }
+            });
+            return false;
         }
     }
 
-    return selectedPath;
-}
-
-// Build a shell command that works on the current platform
-// For .app bundles, we call the executable inside directly to keep output in terminal
-async function buildRunCommand(enginePath: string, projectFolder: string): Promise<string> {
-    if (isWindows()) {
-        return `& "${enginePath}" run "${projectFolder}"`;
+    try {
+        const version = encodePackageVersion(versionString);
+        const count = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Packaging ${path.basename(projectFolder)}`
+        }, () => buildPackage(vscode.Uri.file(projectFolder), vscode.Uri.file(outputPath), {
+            version,
+            compress: config.get<boolean>('package.compress', true)
+        }));
+        vscode.window.showInformationMessage(`Packaged ${count} files into ${path.basename(outputPath)}`);
+        return true;
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to package ${path.basename(projectFolder)}: ${error}`);
+        return false;
     }
-    // Resolve .app bundle to executable inside
-    const execPath = await resolveExecutablePath(enginePath);
-    return `"${execPath}" run "${projectFolder}"`;
 }
 
-async function buildPackageCommand(enginePath: string, projectFolder: string, outputPath: string): Promise<string> {
-    if (isWindows()) {
-        return `& "${enginePath}" package "${projectFolder}" "${outputPath}"`;
-    }
-    // Resolve .app bundle to executable inside
-    const execPath = await resolveExecutablePath(enginePath);
-    return `"${execPath}" package "${projectFolder}" "${outputPath}"`;
+function useBuiltInWriter(config: vscode.WorkspaceConfiguration): boolean {
+    return config.get<string>('package.builder', 'engine') === 'builtin';
 }
 
-async function buildPackageAndRunCommand(enginePath: string, projectFolder: string, outputPath: string): Promise<string> {
-    if (isWindows()) {
-        // PowerShell: use & operator and $? for exit code check
-        return `& "${enginePath}" package "${projectFolder}" "${outputPath}" ; if ($?) { & "${enginePath}" run "${outputPath}" }`;
+// Warn before running a package that was built by a different engine version
+// Rebuilding is offered when the package is the one the package commands build for rebuildProject
+// Returns true when the package should be run
+async function confirmPackageVersion(packageUri: vscode.Uri, engineVersion: string | undefined, rebuildProject?: XsProject): Promise<boolean> {
+    let mismatch;
+    try {
+        mismatch = getPackageVersionMismatch(await PackageParser.parse(packageUri), engineVersion);
+    } catch {
+        // Let the engine report packages it can't read
+        return true;
+    }
+    if (!mismatch) {
+        return true;
     }
-    // Resolve .app bundle to executable inside
-    const execPath = await resolveExecutablePath(enginePath);
-    return `"${execPath}" package "${projectFolder}" "${outputPath}" && "${execPath}" run "${outputPath}"`;
-}
-
-// Keep terminal references alive to prevent disposal
-const activeTerminals = new Map<string, vscode.Terminal>();
 
-// Resolve the configured working directory against the project folder
-function getWorkingDirectory(config: vscode.WorkspaceConfiguration, projectFolder: string): string {
-    return (config.get<string>('workingDirectory', '') || '${workspaceFolder}')
-        .replace('${workspaceFolder}', projectFolder);
+    const actions = rebuildProject ? ['Run Anyway', 'Rebuild and Run'] : ['Run Anyway'];
+    const selection = await vscode.window.showWarningMessage(
+        `${path.basename(packageUri.fsPath)} was built for xs ${mismatch.packageVersion}, but the configured engine is xs ${mismatch.engineVersion}. ` +
+        'Packages from a different engine version may fail at runtime.',
+        { modal: true },
+        ...actions
+    );
+    if (selection === 'Rebuild and Run' && rebuildProject) {
+        vscode.commands.executeCommand('xs-vscode.packageAndRun', rebuildProject.folder);
+    }
+    return selection === 'Run Anyway';
 }
 
 function samePath(a: string, b: string): boolean {
@@ -141,79 +126,59 @@ function samePath(a: string, b: string): boolean {
         : resolvedA === resolvedB;
 }
 
-// Reuse a cached terminal only if it is still alive and was created with the
-// same working directory; a terminal's cwd is fixed at creation, so a changed
-// xs.workingDirectory setting requires a new terminal
-function getOrCreateTerminal(key: string, name: string, cwd: string): vscode.Terminal {
-    const existing = activeTerminals.get(key);
-    if (existing && existing.exitStatus === undefined) {
-        const options = existing.creationOptions as vscode.TerminalOptions;
-        const existingCwd = typeof options.cwd === 'string' ? options.cwd : options.cwd?.fsPath;
-        if (existingCwd && samePath(existingCwd, cwd)) {
-            return existing;
-        }
-        existing.dispose();
-        activeTerminals.delete(key);
-    }
-    const terminal = vscode.window.createTerminal({ name, cwd });
-    activeTerminals.set(key, terminal);
-    return terminal;
-}
-
 export async function activate(context: vscode.ExtensionContext) {
     console.log('xs-vscode activating ...');
 
-    // Validate this is an xs project
-    if (!await validateXsProject()) {
+    // Find the xs projects in the workspace (workspace folders and their subfolders)
+    const projects = await XsProjects.create(context);
+    if (projects.all.length === 0) {
+        console.log('No xs project (project.json with "Main") found');
+        projects.dispose();
+        reportInvalidProjects(context);
         return;
     }
+    console.log(`xs projects detected: ${projects.all.map(project => project.name).join(', ')}. xs-vscode activated.`);
+    context.subscriptions.push(projects);
 
-    // Register all providers and UI elements
-    registerEditors(context);
-    registerLaunchProvider(context);
-    createStatusBarItems(context);
-    registerCommands(context);
+    // Problems with the paths in the projects' project.json files
+    context.subscriptions.push(new XsProjectDiagnostics(projects));
 
-    // Clean up terminals when they are closed by the user
-    context.subscriptions.push(
-        vscode.window.onDidCloseTerminal(terminal => {
-            for (const [key, term] of activeTerminals.entries()) {
-                if (term === terminal) {
-                    activeTerminals.delete(key);
-                    break;
-                }
-            }
-        })
-    );
-}
+    // Registered engine installs; each project runs with the one matching its pinned version
+    const engines = new EngineManager();
+    context.subscriptions.push(engines);
 
-async function validateXsProject(): Promise<boolean> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-        return false;
-    }
+    // Engine output goes to the "xs" output channel; Wren errors become diagnostics
+    const engineRunner = new EngineRunner();
+    context.subscriptions.push(engineRunner);
 
-    const projectJsonUri = vscode.Uri.joinPath(workspaceFolder.uri, 'project.json');
-    try {
-        const content = await vscode.workspace.fs.readFile(projectJsonUri);
-        const projectData = JSON.parse(content.toString());
+    // Parsed Wren scripts, shared by the language features
+    const wrenIndex = new WrenIndex(projects);
+    context.subscriptions.push(wrenIndex);
 
-        // Check for xs-specific fields
-        if (!projectData.Main) {
-            return false;
-        }
+    // The engine's Wren API, loaded for the active project's engine with the version display
+    const wrenApi = new WrenApiProvider(context.extensionUri);
+    context.subscriptions.push(wrenApi);
 
-        console.log('xs project detected. xs-vscode activated.');
-        return true;
-    } catch (e) {
-        console.log('project.json not found or invalid');
-        return false;
-    }
+    // Register all providers and UI elements
+    registerEditors(context, engines);
+    context.subscriptions.push(WrenSymbolProvider.register(wrenIndex));
+    context.subscriptions.push(WrenApiLanguageProvider.register(wrenApi, wrenIndex));
+    context.subscriptions.push(new WrenDiagnostics(wrenIndex));
+    context.subscriptions.push(WrenFormattingProvider.register());
+    context.subscriptions.push(new AssetDiagnostics());
+    registerLaunchProvider(context, projects, engines);
+    context.subscriptions.push(XsTaskProvider.register(projects, engines, engineRunner));
+    createStatusBarItems(context, engineRunner, projects, engines, wrenApi);
+    registerCommands(context, engineRunner, projects, engines);
+    registerRestartOnSave(context, engineRunner);
 }
 
-function registerEditors(context: vscode.ExtensionContext) {
+function registerEditors(context: vscode.ExtensionContext, engines: EngineManager) {
+    context.subscriptions.push(
+        PackageFileSystemProvider.register()
+    );
     context.subscriptions.push(
-        PackageEditorProvider.register(context)
+        PackageEditorProvider.register(context, engines)
     );
     context.subscriptions.push(
         AnimationEditorProvider.register(context)
@@ -226,31 +191,72 @@ function registerEditors(context: vscode.ExtensionContext) {
     );
 }
 
-function registerLaunchProvider(context: vscode.ExtensionContext) {
-    // Register launch configuration provider (debugging support to be added later)
+function registerLaunchProvider(context: vscode.ExtensionContext, projects: XsProjects, engines: EngineManager) {
+    // Register launch configuration provider
     context.subscriptions.push(
-        vscode.debug.registerDebugConfigurationProvider('xs', new XsLaunchConfigurationProvider())
+        vscode.debug.registerDebugConfigurationProvider('xs', new XsLaunchConfigurationProvider(projects))
     );
 
-    // Register launch handler
+    // Register launch handler (inline debug adapter)
     context.subscriptions.push(
-        vscode.debug.registerDebugAdapterDescriptorFactory('xs', new XsLaunchHandler())
+        vscode.debug.registerDebugAdapterDescriptorFactory('xs', new XsLaunchHandler(projects, engines))
     );
 }
 
-function createStatusBarItems(context: vscode.ExtensionContext) {
+function createStatusBarItems(context: vscode.ExtensionContext, engineRunner: EngineRunner, projects: XsProjects, engines: EngineManager, wrenApi: WrenApiProvider) {
     // Create status bar items (on the left with low priority to not hide git info)
     const runStatusBarItem = vscode.window.createStatusBarItem(
         vscode.StatusBarAlignment.Left,
         1 // Low priority (appears after git info)
     );
 
-    runStatusBarItem.command = 'xs-vscode.runEngine';
-    runStatusBarItem.text = '$(debug-alt) Run';
-    runStatusBarItem.tooltip = 'Run current folder as an xs game';
+    // Shown next to Run (which turns into Stop) while the game runs
+    const restartStatusBarItem = vscode.window.createStatusBarItem(
+        vscode.StatusBarAlignment.Left,
+        0
+    );
+    restartStatusBarItem.command = 'xs-vscode.restartEngine';
+    restartStatusBarItem.text = '$(debug-restart) Restart';
+    restartStatusBarItem.tooltip = 'Restart the running xs game';
+
+    const updateRunStatusBarItems = (running: boolean) => {
+        if (running) {
+            runStatusBarItem.command = 'xs-vscode.stopEngine';
+            runStatusBarItem.text = '$(debug-stop) Stop';
+            runStatusBarItem.tooltip = 'Stop the running xs game';
+            restartStatusBarItem.show();
+        } else {
+            runStatusBarItem.command = 'xs-vscode.runEngine';
+            runStatusBarItem.text = '$(debug-alt) Run';
+            runStatusBarItem.tooltip = 'Run the active xs project';
+            restartStatusBarItem.hide();
+        }
+        vscode.commands.executeCommand('setContext', 'xs.engineRunning', running);
+    };
+    updateRunStatusBarItems(false);
     runStatusBarItem.show();
 
-    context.subscriptions.push(runStatusBarItem);
+    context.subscriptions.push(runStatusBarItem, restartStatusBarItem);
+
+    // The active project, when there is more than one to choose from
+    const projectStatusBarItem = vscode.window.createStatusBarItem(
+        vscode.StatusBarAlignment.Left,
+        2
+    );
+    projectStatusBarItem.command = 'xs-vscode.selectProject';
+    const updateProjectStatusBarItem = () => {
+        const project = projects.active;
+        if (project && projects.all.length > 1) {
+            projectStatusBarItem.text = `$(folder) ${project.name}`;
+            projectStatusBarItem.tooltip = `Active xs project: ${vscode.workspace.asRelativePath(project.folder, true)}\nClick to select another project`;
+            projectStatusBarItem.show();
+        } else {
+            projectStatusBarItem.hide();
+        }
+    };
+    updateProjectStatusBarItem();
+    context.subscriptions.push(projectStatusBarItem, projects.onDidChange(updateProjectStatusBarItem));
+    context.subscriptions.push(engineRunner.onDidChangeRunning(updateRunStatusBarItems));
 
     // Create version status bar item (on the right side, like Python extension)
     const versionStatusBarItem = vscode.window.createStatusBarItem(
@@ -262,77 +268,97 @@ function createStatusBarItems(context: vscode.ExtensionContext) {
     versionStatusBarItem.tooltip = 'xs engine version';
 
     // Update the version display
-    updateEngineVersion(versionStatusBarItem);
+    updateEngineVersion(versionStatusBarItem, engines, projects, wrenApi);
 
     context.subscriptions.push(versionStatusBarItem);
 
-    // Watch for configuration changes to update version
+    // The engine changes with the settings, the pinned version and the active project
     context.subscriptions.push(
-        vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('xs.enginePath')) {
-                updateEngineVersion(versionStatusBarItem);
-            }
-        })
+        engines.onDidChange(() => updateEngineVersion(versionStatusBarItem, engines, projects, wrenApi)),
+        projects.onDidChange(() => updateEngineVersion(versionStatusBarItem, engines, projects, wrenApi))
     );
 }
 
-async function updateEngineVersion(statusBarItem: vscode.StatusBarItem) {
-    const config = vscode.workspace.getConfiguration('xs');
-    const configuredPath = config.get<string>('enginePath', '');
-    const enginePath = configuredPath || 'xs';
+// Files that change what the running game does
+const RESTART_ON_SAVE_EXTENSIONS = ['.wren', '.json', '.xsanim', '.xssprite', '.xstiles', '.vert', '.frag', '.glsl'];
 
-    try {
-        const { exec } = require('child_process');
-        const { promisify } = require('util');
-        const execAsync = promisify(exec);
-
-        const executablePath = await resolveExecutablePath(enginePath);
-        const { stdout } = await execAsync(`"${executablePath}" version`);
-        const version = stdout.trim();
-
-        statusBarItem.text = `$(game) xs ${version}`;
-        statusBarItem.tooltip = configuredPath
-            ? `xs engine ${version}\nPath: ${configuredPath}`
-            : `xs engine ${version}\nUsing xs from PATH`;
-        statusBarItem.show();
-    } catch (error) {
+// With xs.restartOnSave, restart the running game when one of its scripts or assets is saved
+function registerRestartOnSave(context: vscode.ExtensionContext, engineRunner: EngineRunner) {
+    let timer: NodeJS.Timeout | undefined;
+    context.subscriptions.push(
+        vscode.workspace.onDidSaveTextDocument(document => {
+            const projectFolder = engineRunner.runningProject;
+            if (!projectFolder || document.uri.scheme !== 'file' ||
+                !vscode.workspace.getConfiguration('xs').get<boolean>('restartOnSave', false) ||
+                !RESTART_ON_SAVE_EXTENSIONS.includes(path.extname(document.uri.fsPath).toLowerCase())) {
+                return;
+            }
+            const relativePath = path.relative(projectFolder, document.uri.fsPath);
+            if (relativePath.startsWith('..') || path.isAbsolute(relativePath) || relativePath.startsWith('.package')) {
+                return;
+            }
+
+            // Save All writes several files at once; restart once
+            clearTimeout(timer);
+            timer = setTimeout(() => vscode.commands.executeCommand('xs-vscode.restartEngine'), 300);
+        }),
+        { dispose: () => clearTimeout(timer) }
+    );
+}
+
+async function updateEngineVersion(statusBarItem: vscode.StatusBarItem, engines: EngineManager, projects: XsProjects, wrenApi: WrenApiProvider) {
+    const project = projects.active;
+    const engine = await engines.resolve(project?.folder);
+    // Completions and hovers follow the engine shown here
+    wrenApi.setEngine(engine, project?.folder);
+    const pathInfo = engine.path === 'xs' ? 'Using xs from PATH' : `Path: ${engine.path}`;
+
+    if (engine.missing && project) {
+        // Switching to a project whose engine is missing falls back to the default engine
+        statusBarItem.text = `$(warning) xs ${engine.version || 'not found'}`;
+        statusBarItem.tooltip = `${project.name} requires xs ${engine.required}, which is not installed\n${pathInfo}`;
+        engines.warnMissing(project.folder, engine);
+    } else if (engine.version) {
+        statusBarItem.text = `$(game) xs ${engine.version}`;
+        statusBarItem.tooltip = engine.required
+            ? `xs engine ${engine.version} (${project?.name} requires ${engine.required})\n${pathInfo}`
+            : `xs engine ${engine.version}\n${pathInfo}`;
+    } else {
         statusBarItem.text = '$(circle-slash) xs: not found';
-        statusBarItem.tooltip = configuredPath
-            ? `xs engine not found\nPath: ${configuredPath}`
+        statusBarItem.tooltip = engine.path !== 'xs'
+            ? `xs engine not found\n${pathInfo}`
             : 'xs not found in PATH. Install xs or configure xs.enginePath.';
-        statusBarItem.show();
     }
+    statusBarItem.show();
 }
 
-function registerCommands(context: vscode.ExtensionContext) {
+function registerCommands(context: vscode.ExtensionContext, engineRunner: EngineRunner, projects: XsProjects, engines: EngineManager) {
     // Show Engine Info command
     let showEngineInfo = vscode.commands.registerCommand('xs-vscode.showEngineInfo', async () => {
         const config = vscode.workspace.getConfiguration('xs');
-        const configuredPath = config.get<string>('enginePath', '');
-        const enginePath = configuredPath || 'xs';
-
-        try {
-            const { exec } = require('child_process');
-            const { promisify } = require('util');
-            const execAsync = promisify(exec);
-
-            const executablePath = await resolveExecutablePath(enginePath);
-            const { stdout } = await execAsync(`"${executablePath}" version`);
-            const version = stdout.trim();
-            const pathInfo = configuredPath ? `Path: ${configuredPath}` : 'Using xs from PATH';
-
-            vscode.window.showInformationMessage(
-                `xs engine ${version} — ${pathInfo}`,
-                'Open Settings'
+        const project = projects.active;
+        const engine = await engines.resolve(project?.folder);
+        const pathInfo = engine.path === 'xs' ? 'Using xs from PATH' : `Path: ${engine.path}`;
+
+        if (engine.version) {
+            const pinInfo = engine.missing
+                ? ` — ${project?.name} requires xs ${engine.required}, which is not installed`
+                : engine.required ? ` — pinned by ${project?.name} (${engine.required})` : '';
+            const show = engine.missing ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+            show(
+                `xs engine ${engine.version} — ${pathInfo}${pinInfo}`,
+                'Manage Engines', 'Open Settings'
             ).then(selection => {
-                if (selection === 'Open Settings') {
+                if (selection === 'Manage Engines') {
+                    engines.manage(project?.folder);
+                } else if (selection === 'Open Settings') {
                     vscode.commands.executeCommand('workbench.action.openSettings', 'xs.enginePath');
                 }
             });
-        } catch (error) {
-            const pathInfo = configuredPath ? `Path: ${configuredPath}` : 'xs not found in PATH';
+        } else {
+            const notFoundInfo = engine.path === 'xs' ? 'xs not found in PATH' : pathInfo;
             vscode.window.showErrorMessage(
-                `xs engine not found — ${pathInfo}`,
+                `xs engine not found — ${notFoundInfo}`,
                 'Browse...', 'Open Settings'
             ).then(async selection => {
                 if (selection === 'Browse...') {
@@ -355,100 +381,329 @@ function registerCommands(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(showEngineInfo);
 
-    // Run Engine command
-    let runEngine = vscode.commands.registerCommand('xs-vscode.runEngine', async () => {
-        const config = vscode.workspace.getConfiguration('xs');
-        const enginePath = getEnginePath(config);
+    // Manage Engines command: register engine installs and pin the active project to one
+    let manageEngines = vscode.commands.registerCommand('xs-vscode.manageEngines', () => engines.manage(projects.active?.folder));
+    context.subscriptions.push(manageEngines);
 
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            vscode.window.showErrorMessage('No workspace folder open');
+    // Report a failed run or package step, with a way to see what the engine printed
+    const reportFailure = (message: string) => {
+        vscode.window.showErrorMessage(message, 'Show Output').then(selection => {
+            if (selection === 'Show Output') {
+                engineRunner.showOutput();
+            }
+        });
+    };
+
+    // The project a command was invoked for, defaulting to the active one
+    const findProject = (folder: vscode.Uri | undefined): XsProject | undefined => {
+        return (folder && projects.all.find(project => samePath(project.folder.fsPath, folder.fsPath))) || projects.active;
+    };
+
+    // Repeats the current (or last) engine launch for Restart, with the same profile
+    let lastRun: () => Thenable<unknown> = () => vscode.commands.executeCommand('xs-vscode.runEngine');
+
+    const runProject = async (profile: RunProfile | undefined) => {
+        lastRun = () => runProject(profile);
+        const project = projects.active;
+        if (!project) {
+            vscode.window.showErrorMessage('No xs project found in the workspace');
             return;
         }
-        const projectFolder = workspaceFolder.uri.fsPath;
-        const workingDir = getWorkingDirectory(config, projectFolder);
+        const projectFolder = project.folder.fsPath;
+        const config = vscode.workspace.getConfiguration('xs', project.folder);
+        const enginePath = await engines.getEnginePath(project.folder);
+        const options = resolveRunOptions(config, projectFolder, profile);
+        const label = profile ? `Running ${path.basename(projectFolder)} (${profile.name})` : `Running ${path.basename(projectFolder)}`;
+
+        const exit = await engineRunner.run(await resolveExecutablePath(enginePath), options.cwd, projectFolder, [
+            { label, args: ['run', projectFolder, ...options.args], debug: true }
+        ], options.env);
+        if (exit !== undefined && exit !== 0) {
+            reportFailure(`xs ${describeExit(exit)}`);
+        }
+    };
 
-        const terminal = getOrCreateTerminal('xs-engine', 'xs engine', workingDir);
-        terminal.show();
-        terminal.sendText(await buildRunCommand(enginePath, projectFolder));
+    // Select Project command (status bar item when the workspace has several projects)
+    let selectProject = vscode.commands.registerCommand('xs-vscode.selectProject', () => projects.pick());
+    context.subscriptions.push(selectProject);
+
+    // Run Engine command; asks for a run profile when xs.runProfiles has any, unless
+    // one is passed by name (e.g. from a keybinding's "args")
+    let runEngine = vscode.commands.registerCommand('xs-vscode.runEngine', async (profileName?: string) => {
+        const config = vscode.workspace.getConfiguration('xs', projects.active?.folder);
+        let profile: RunProfile | undefined | null;
+        if (typeof profileName === 'string') {
+            profile = findRunProfile(config, profileName);
+            if (!profile) {
+                vscode.window.showErrorMessage(`No run profile named "${profileName}" in xs.runProfiles`);
+                return;
+            }
+        } else {
+            profile = await pickRunProfile(config);
+            if (profile === null) {
+                return;
+            }
+        }
+        await runProject(profile);
     });
     context.subscriptions.push(runEngine);
 
-    // Package Game command
-    let packageGame = vscode.commands.registerCommand('xs-vscode.packageGame', async () => {
-        const config = vscode.workspace.getConfiguration('xs');
-        const enginePath = getEnginePath(config);
-
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            vscode.window.showErrorMessage('No workspace folder open');
-            return;
-        }
-        const projectFolder = workspaceFolder.uri.fsPath;
+    // Builds <project>/.package/<folder>.xs; resolves with its path, or undefined when packaging failed
+    const packageProject = async (project: XsProject): Promise<string | undefined> => {
+        const projectFolder = project.folder.fsPath;
+        const config = vscode.workspace.getConfiguration('xs', project.folder);
+        const enginePath = await engines.getEnginePath(project.folder);
         const folderName = path.basename(projectFolder);
         const packageDir = path.join(projectFolder, '.package');
         const outputPath = path.join(packageDir, `${folderName}.xs`);
         const workingDir = getWorkingDirectory(config, projectFolder);
 
-        vscode.workspace.fs.createDirectory(vscode.Uri.file(packageDir));
+        await vscode.workspace.fs.createDirectory(vscode.Uri.file(packageDir));
+
+        if (useBuiltInWriter(config)) {
+            return await packageWithBuiltInWriter(config, enginePath, projectFolder, outputPath) ? outputPath : undefined;
+        }
+
+        const exit = await engineRunner.run(await resolveExecutablePath(enginePath), workingDir, projectFolder, [
+            { label: `Packaging ${folderName}`, args: ['package', projectFolder, outputPath] }
+        ]);
+        if (exit !== 0) {
+            if (exit !== undefined) {
+                reportFailure(`Packaging ${folderName} failed (xs ${describeExit(exit)})`);
+            }
+            return undefined;
+        }
+        vscode.window.showInformationMessage(`Packaged ${folderName} into ${path.basename(outputPath)}`);
+        return outputPath;
+    };
 
-        const terminal = getOrCreateTerminal('xs-package', 'xs package', workingDir);
-        terminal.show();
-        terminal.sendText(await buildPackageCommand(enginePath, projectFolder, outputPath));
+    // Runs a built package; Restart repeats this without packaging again
+    const runPackage = async (project: XsProject, packagePath: string) => {
+        lastRun = () => runPackage(project, packagePath);
+        const projectFolder = project.folder.fsPath;
+        const config = vscode.workspace.getConfiguration('xs', project.folder);
+        const enginePath = await engines.getEnginePath(project.folder);
+
+        const exit = await engineRunner.run(await resolveExecutablePath(enginePath), getWorkingDirectory(config, projectFolder), projectFolder, [
+            { label: `Running ${path.basename(packagePath)}`, args: ['run', packagePath], debug: true }
+        ]);
+        if (exit !== undefined && exit !== 0) {
+            reportFailure(`xs ${describeExit(exit)}`);
+        }
+    };
 
-        vscode.window.showInformationMessage(`Packaging ${folderName}...`);
+    // Package Game command
+    let packageGame = vscode.commands.registerCommand('xs-vscode.packageGame', async (projectFolderUri?: vscode.Uri) => {
+        const project = findProject(projectFolderUri);
+        if (!project) {
+            vscode.window.showErrorMessage('No xs project found in the workspace');
+            return;
+        }
+        await packageProject(project);
     });
     context.subscriptions.push(packageGame);
 
     // Package and Run command
-    let packageAndRun = vscode.commands.registerCommand('xs-vscode.packageAndRun', async () => {
-        const config = vscode.workspace.getConfiguration('xs');
-        const enginePath = getEnginePath(config);
+    let packageAndRun = vscode.commands.registerCommand('xs-vscode.packageAndRun', async (projectFolderUri?: vscode.Uri) => {
+        const project = findProject(projectFolderUri);
+        if (!project) {
+            vscode.window.showErrorMessage('No xs project found in the workspace');
+            return;
+        }
+        const packagePath = await packageProject(project);
+        if (!packagePath) {
+            return;
+        }
+        // A pinned xs.package.version can differ from the engine; rebuilding would not help
+        if (useBuiltInWriter(vscode.workspace.getConfiguration('xs', project.folder)) &&
+            !await confirmPackageVersion(vscode.Uri.file(packagePath), await engines.getVersion(await engines.getEnginePath(project.folder)))) {
+            return;
+        }
+        await runPackage(project, packagePath);
+    });
+    context.subscriptions.push(packageAndRun);
 
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            vscode.window.showErrorMessage('No workspace folder open');
+    // Stop Engine command
+    let stopEngine = vscode.commands.registerCommand('xs-vscode.stopEngine', () => {
+        engineRunner.stop();
+    });
+    context.subscriptions.push(stopEngine);
+
+    // Restart Engine command: repeats the last engine launch; a package is run again as built
+    let restartEngine = vscode.commands.registerCommand('xs-vscode.restartEngine', () => {
+        // Restart the running project, even when a file of another project is active now
+        const runningProject = engineRunner.runningProject;
+        const project = runningProject && projects.all.find(candidate => samePath(candidate.folder.fsPath, runningProject));
+        if (project) {
+            projects.setActive(project);
+        }
+        return lastRun();
+    });
+    context.subscriptions.push(restartEngine);
+
+    // Extract Package command (explorer context menu on .xs files)
+    let extractPackage = vscode.commands.registerCommand('xs-vscode.extractPackage', async (uri?: vscode.Uri) => {
+        if (!uri) {
+            const selected = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: 'Select package',
+                filters: { 'xs packages': ['xs'] }
+            });
+            uri = selected?.[0];
+        }
+        if (!uri) {
             return;
         }
-        const projectFolder = workspaceFolder.uri.fsPath;
-        const folderName = path.basename(projectFolder);
-        const packageDir = path.join(projectFolder, '.package');
-        const outputPath = path.join(packageDir, `${folderName}.xs`);
-        const workingDir = getWorkingDirectory(config, projectFolder);
 
-        vscode.workspace.fs.createDirectory(vscode.Uri.file(packageDir));
+        try {
+            const packageInfo = await PackageParser.parse(uri);
+            await promptExtractPackageEntries(uri, packageInfo, packageInfo.entries);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load package: ${error}`);
+        }
+    });
+    context.subscriptions.push(extractPackage);
 
-        const terminal = getOrCreateTerminal('xs-package-run', 'xs package & run', workingDir);
-        terminal.show();
-        terminal.sendText(await buildPackageAndRunCommand(enginePath, projectFolder, outputPath));
+    // Compare Packages command; from the explorer, two selected .xs files are compared directly
+    let comparePackages = vscode.commands.registerCommand('xs-vscode.comparePackages', async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        if (uris && uris.length === 2) {
+            await PackageDiffPanel.show(context, uris[0], uris[1]);
+        } else {
+            await PackageDiffPanel.show(context, uri);
+        }
+    });
+    context.subscriptions.push(comparePackages);
 
-        vscode.window.showInformationMessage(`Packaging and running ${folderName}...`);
+    // Check Package Drift command: compare the built package with the project files
+    let checkDrift = vscode.commands.registerCommand('xs-vscode.checkPackageDrift', async (uri?: vscode.Uri) => {
+        const packageUri = uri || getDefaultPackageUri(projects.active);
+        if (!packageUri) {
+            vscode.window.showErrorMessage('No xs project found in the workspace');
+            return;
+        }
+
+        const projectFolder = await findProjectFolderForPackage(packageUri);
+        if (!projectFolder) {
+            vscode.window.showErrorMessage(`No xs project found for ${path.basename(packageUri.fsPath)}`);
+            return;
+        }
+
+        try {
+            const drift = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Comparing package with project files'
+            }, () => checkPackageDrift(packageUri, projectFolder));
+
+            if (!hasDrift(drift)) {
+                vscode.window.showInformationMessage(`${path.basename(packageUri.fsPath)} is up to date with the project`);
+                return;
+            }
+
+            const selection = await vscode.window.showWarningMessage(
+                `${path.basename(packageUri.fsPath)} is out of date: ${describeDrift(drift)}`,
+                'Show Details', 'Rebuild Package'
+            );
+            if (selection === 'Show Details') {
+                vscode.commands.executeCommand('vscode.openWith', packageUri, 'xs.packageViewer');
+            } else if (selection === 'Rebuild Package') {
+                vscode.commands.executeCommand('xs-vscode.packageGame');
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to check package: ${error}`);
+        }
     });
-    context.subscriptions.push(packageAndRun);
+    context.subscriptions.push(checkDrift);
+
+    // Package Size Report command: writes <package>.report.json/.md and checks size budgets
+    // Needs no interaction, so it can also be run from tasks or other extensions:
+    // executeCommand('xs-vscode.packageReport', packageUri, { outputFolder }) resolves to the report
+    const budgetDiagnostics = vscode.languages.createDiagnosticCollection('xs-package-budget');
+    context.subscriptions.push(budgetDiagnostics);
+
+    let packageReport = vscode.commands.registerCommand('xs-vscode.packageReport', async (uri?: vscode.Uri, options?: { outputFolder?: string }) => {
+        const packageUri = uri || getDefaultPackageUri(projects.active);
+        if (!packageUri) {
+            vscode.window.showErrorMessage('No xs project found in the workspace');
+            return undefined;
+        }
+        const packageName = path.basename(packageUri.fsPath);
+
+        try {
+            const packageInfo = await PackageParser.parse(packageUri);
+            const budget = await loadPackageBudget(await findProjectFolderForPackage(packageUri));
+            const report = createSizeReport(packageName, packageInfo, budget?.budget);
+            const outputFolder = options?.outputFolder ? vscode.Uri.file(options.outputFolder) : undefined;
+            const [, markdownUri] = await writeSizeReport(packageUri, report, outputFolder);
+
+            await updateBudgetDiagnostics(budgetDiagnostics, budget?.source || packageUri, report.violations);
+
+            const message = report.violations.length > 0
+                ? vscode.window.showWarningMessage(
+                    `${packageName} is over its size budget: ${report.violations[0].message}` +
+                    (report.violations.length > 1 ? ` (and ${report.violations.length - 1} more)` : ''),
+                    'Open Report'
+                )
+                : vscode.window.showInformationMessage(`Size report for ${packageName} written`, 'Open Report');
+            message.then(selection => {
+                if (selection === 'Open Report') {
+                    vscode.commands.executeCommand('markdown.showPreview', markdownUri);
+                }
+            });
+            return report;
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create size report for ${packageName}: ${error}`);
+            return undefined;
+        }
+    });
+    context.subscriptions.push(packageReport);
 }
 
+// The package the package commands build for a project: <project>/.package/<folder>.xs
+function getDefaultPackageUri(project: XsProject | undefined): vscode.Uri | undefined {
+    if (!project) {
+        return undefined;
+    }
+    const folderName = path.basename(project.folder.fsPath);
+    return vscode.Uri.joinPath(project.folder, '.package', `${folderName}.xs`);
+}
 
-function getLanguageId(filePath: string): string {
-    const ext = path.extname(filePath);
-    const langMap: { [key: string]: string } = {
-        '.json': 'json',
-        '.txt': 'plaintext',
-        '.wren': 'javascript', // Close enough
-        '.frag': 'glsl',
-        '.vert': 'glsl'
-    };
-    return langMap[ext] || 'plaintext';
+// Show budget violations in the Problems panel, on the PackageBudget object when it comes from project.json
+async function updateBudgetDiagnostics(collection: vscode.DiagnosticCollection, target: vscode.Uri, violations: BudgetViolation[]) {
+    collection.clear();
+    if (violations.length === 0) {
+        return;
+    }
+
+    let range = new vscode.Range(0, 0, 0, 0);
+    if (path.basename(target.fsPath) === 'project.json') {
+        const document = await vscode.workspace.openTextDocument(target);
+        const offset = document.getText().indexOf('"PackageBudget"');
+        if (offset >= 0) {
+            range = new vscode.Range(document.positionAt(offset), document.positionAt(offset + '"PackageBudget"'.length));
+        }
+    }
+
+    collection.set(target, violations.map(violation => {
+        const diagnostic = new vscode.Diagnostic(range, violation.message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'xs';
+        return diagnostic;
+    }));
 }
 
+
 // Launch Configuration Provider
 // Provides launch configurations for the Run and Debug panel (F5 support)
-// Note: This is launch-only. Actual debugging support (breakpoints, etc.) will be added later.
 class XsLaunchConfigurationProvider implements vscode.DebugConfigurationProvider {
+    constructor(private readonly projects: XsProjects) {}
+
     resolveDebugConfiguration(
         folder: vscode.WorkspaceFolder | undefined,
         config: vscode.DebugConfiguration,
         token?: vscode.CancellationToken
     ): vscode.ProviderResult<vscode.DebugConfiguration> {
+        // Without launch.json (or a projectFolder), run the active project
+        const defaultProjectFolder = this.projects.active?.folder.fsPath || '${workspaceFolder}';
+
         // If no configuration is provided, create a default one
         if (!config.type && !config.request && !config.name) {
             const editor = vscode.window.activeTextEditor;
@@ -456,13 +711,13 @@ class XsLaunchConfigurationProvider implements vscode.DebugConfigurationProvider
                 config.type = 'xs';
                 config.name = 'xs: run game';
                 config.request = 'launch';
-                config.projectFolder = '${workspaceFolder}';
+                config.projectFolder = defaultProjectFolder;
                 config.packageFirst = false;
             }
         }
 
         if (!config.projectFolder) {
-            config.projectFolder = '${workspaceFolder}';
+            config.projectFolder = defaultProjectFolder;
         }
 
         return config;
@@ -470,8 +725,11 @@ class XsLaunchConfigurationProvider implements vscode.DebugConfigurationProvider
 }
 
 // Launch Handler
-// Handles launching the game when F5 is pressed or Run button is clicked
+// Runs the game in a debug session when F5 is pressed or Run button is clicked: the
+// engine's output goes to the Debug Console and the session can be stopped and restarted
 class XsLaunchHandler implements vscode.DebugAdapterDescriptorFactory {
+    constructor(private readonly projects: XsProjects, private readonly engines: EngineManager) {}
+
     async createDebugAdapterDescriptor(
         session: vscode.DebugSession,
         executable: vscode.DebugAdapterExecutable | undefined
@@ -479,18 +737,33 @@ class XsLaunchHandler implements vscode.DebugAdapterDescriptorFactory {
         const config = session.configuration;
         const packageFirst = config.packageFirst || false;
 
-        // Get engine configuration
-        const vsConfig = vscode.workspace.getConfiguration('xs');
-        const enginePath = getEnginePath(vsConfig);
-
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            vscode.window.showErrorMessage('No workspace folder open');
+        const baseFolder = session.workspaceFolder?.uri || this.projects.active?.folder;
+        if (!baseFolder) {
+            vscode.window.showErrorMessage('No xs project found in the workspace');
             return null;
         }
 
-        const projectFolder = config.projectFolder.replace('${workspaceFolder}', workspaceFolder.uri.fsPath);
-        const workingDir = getWorkingDirectory(vsConfig, projectFolder);
+        const projectFolder = config.projectFolder.replace('${workspaceFolder}', baseFolder.fsPath);
+
+        // Scripts of a package map back to the project it was built from
+        let scriptFolder = projectFolder;
+        if (projectFolder.toLowerCase().endsWith('.xs')) {
+            scriptFolder = (await findProjectFolderForPackage(vscode.Uri.file(projectFolder)))?.fsPath || baseFolder.fsPath;
+        }
+
+        // The engine pinned by that project, or the default one
+        const enginePath = await this.engines.getEnginePath(vscode.Uri.file(scriptFolder));
+        // Run profiles, packaging and working directory settings of that project's folder
+        const vsConfig = vscode.workspace.getConfiguration('xs', vscode.Uri.file(scriptFolder));
+
+        const profile = config.profile ? findRunProfile(vsConfig, config.profile) : undefined;
+        if (config.profile && !profile) {
+            vscode.window.showErrorMessage(`No run profile named "${config.profile}" in xs.runProfiles`);
+            return null;
+        }
+        // ${workspaceFolder} and the default working directory are folders: for a package, its project's
+        const options = resolveRunOptions(vsConfig, scriptFolder, profile, { args: config.args, env: config.env, cwd: config.cwd });
+        const steps: XsLaunchStep[] = [];
 
         if (packageFirst) {
             // Package & Run
@@ -500,20 +773,41 @@ class XsLaunchHandler implements vscode.DebugAdapterDescriptorFactory {
 
             // Create .package directory
             const packageDirUri = vscode.Uri.file(packageDir);
-            vscode.workspace.fs.createDirectory(packageDirUri);
+            await vscode.workspace.fs.createDirectory(packageDirUri);
 
-            const terminal = getOrCreateTerminal('xs-debug-package-run', 'xs package & run', workingDir);
-            terminal.show();
-            terminal.sendText(await buildPackageAndRunCommand(enginePath, projectFolder, outputPath));
+            if (useBuiltInWriter(vsConfig)) {
+                if (!await packageWithBuiltInWriter(vsConfig, enginePath, projectFolder, outputPath) ||
+                    !await confirmPackageVersion(vscode.Uri.file(outputPath), await this.engines.getVersion(enginePath))) {
+                    return null;
+                }
+            } else {
+                steps.push({ label: `Packaging ${folderName}`, args: ['package', projectFolder, outputPath] });
+            }
+            steps.push({ label: `Running ${path.basename(outputPath)}`, args: ['run', outputPath, ...options.args], debug: true });
         } else {
-            // Just Run
-            const terminal = getOrCreateTerminal('xs-debug', 'xs engine', workingDir);
-            terminal.show();
-            terminal.sendText(await buildRunCommand(enginePath, projectFolder));
+            // Just Run; projectFolder may also point at a built package
+            // Rebuilding is only offered for a package the package commands build
+            const packageProject = this.projects.all.find(project => {
+                const defaultPackage = getDefaultPackageUri(project);
+                return defaultPackage !== undefined && samePath(defaultPackage.fsPath, projectFolder);
+            });
+            if (projectFolder.toLowerCase().endsWith('.xs') &&
+                !await confirmPackageVersion(vscode.Uri.file(projectFolder), await this.engines.getVersion(enginePath), packageProject)) {
+                return null;
+            }
+            steps.push({ label: `Running ${path.basename(projectFolder)}`, args: ['run', projectFolder, ...options.args], debug: true });
         }
 
-        // Return null since we're just launching, not debugging
-        return null;
+        return new vscode.DebugAdapterInlineImplementation(new XsDebugAdapter({
+            executable: await resolveExecutablePath(enginePath),
+            cwd: options.cwd,
+            env: options.env,
+            steps,
+            debug: config.noDebug ? undefined : {
+                port: config.debugPort || await findFreePort(),
+                projectFolder: scriptFolder
+            }
+        }));
     }
 }
 
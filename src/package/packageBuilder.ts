@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+import { PackageSourceFile, PackageWriter, PackageWriterOptions } from './packageWriter';
+import { findProjectFiles } from './projectFiles';
+
+// Package a project without the engine: collect the project files selected by
+// the xs.package settings and write them with PackageWriter
+export async function buildPackage(
+    projectFolder: vscode.Uri,
+    outputUri: vscode.Uri,
+    options: PackageWriterOptions
+): Promise<number> {
+    const projectFiles = await findProjectFiles(projectFolder);
+
+    const files: PackageSourceFile[] = [];
+    for (const [relativePath, uri] of projectFiles) {
+        // Never package the output into itself
+        if (uri.toString() === outputUri.toString()) {
+            continue;
+        }
+        files.push({ relativePath, data: await vscode.workspace.fs.readFile(uri) });
+    }
+
+    await vscode.workspace.fs.writeFile(outputUri, PackageWriter.write(files, options));
+    return files.length;
+}
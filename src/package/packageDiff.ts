@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { PackageEntry, PackageInfo, PackageParser, normalizeEntryPath } from './packageParser';
+
+export type EntryChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface PackageEntryDiff {
+    relativePath: string;
+    change: EntryChange;
+    oldSize?: number;
+    newSize?: number;
+    oldPacked?: number;
+    newPacked?: number;
+}
+
+export interface PackageDiff {
+    oldInfo: PackageInfo;
+    newInfo: PackageInfo;
+    entries: PackageEntryDiff[];
+}
+
+// Compare two packages entry by entry; entries with the same size are compared by content
+export async function diffPackages(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<PackageDiff> {
+    const oldInfo = await PackageParser.parse(oldUri);
+    const newInfo = await PackageParser.parse(newUri);
+
+    const oldReader = await PackageParser.openEntryReader(oldUri, oldInfo);
+    try {
+        const newReader = await PackageParser.openEntryReader(newUri, newInfo);
+        try {
+            const entries = await diffPackageEntries(oldInfo, newInfo, entry => oldReader.read(entry), entry => newReader.read(entry));
+            return { oldInfo, newInfo, entries };
+        } finally {
+            await newReader.close();
+        }
+    } finally {
+        await oldReader.close();
+    }
+}
+
+// The comparison itself; `readOld` and `readNew` return the contents of an entry of either package
+export async function diffPackageEntries(
+    oldInfo: PackageInfo,
+    newInfo: PackageInfo,
+    readOld: (entry: PackageEntry) => Promise<Uint8Array>,
+    readNew: (entry: PackageEntry) => Promise<Uint8Array>
+): Promise<PackageEntryDiff[]> {
+    const byPath = (info: PackageInfo) => {
+        const map = new Map<string, PackageEntry>();
+        for (const entry of info.entries) {
+            map.set(normalizeEntryPath(entry.relativePath), entry);
+        }
+        return map;
+    };
+    const oldEntries = byPath(oldInfo);
+    const newEntries = byPath(newInfo);
+
+    const entries: PackageEntryDiff[] = [];
+    for (const [relativePath, oldEntry] of oldEntries) {
+        const newEntry = newEntries.get(relativePath);
+        if (!newEntry) {
+            entries.push({
+                relativePath,
+                change: 'removed',
+                oldSize: Number(oldEntry.uncompressedSize),
+                oldPacked: Number(oldEntry.dataLength)
+            });
+            continue;
+        }
+
+        let changed = oldEntry.uncompressedSize !== newEntry.uncompressedSize;
+        if (!changed) {
+            const oldData = await readOld(oldEntry);
+            const newData = await readNew(newEntry);
+            changed = !Buffer.from(oldData).equals(newData);
+        }
+
+        entries.push({
+            relativePath,
+            change: changed ? 'changed' : 'unchanged',
+            oldSize: Number(oldEntry.uncompressedSize),
+            newSize: Number(newEntry.uncompressedSize),
+            oldPacked: Number(oldEntry.dataLength),
+            newPacked: Number(newEntry.dataLength)
+        });
+    }
+
+    for (const [relativePath, newEntry] of newEntries) {
+        if (!oldEntries.has(relativePath)) {
+            entries.push({
+                relativePath,
+                change: 'added',
+                newSize: Number(newEntry.uncompressedSize),
+                newPacked: Number(newEntry.dataLength)
+            });
+        }
+    }
+
+    entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    return entries;
+}
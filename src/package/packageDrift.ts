@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { PackageEntry, PackageInfo, PackageParser, normalizeEntryPath } from './packageParser';
+import { findProjectFiles } from './projectFiles';
+
+export interface PackageDrift {
+    // Files in the project that are not in the package
+    missingFromPackage: string[];
+    // Entries in the package whose source file no longer exists
+    missingOnDisk: string[];
+    // Entries whose content differs from the source file
+    modified: string[];
+}
+
+export function hasDrift(drift: PackageDrift): boolean {
+    return drift.missingFromPackage.length > 0 || drift.missingOnDisk.length > 0 || drift.modified.length > 0;
+}
+
+// Where the comparison reads from, so it can run without a package or project on disk
+export interface DriftSources {
+    // The files the package is built from (xs.package.include minus xs.package.exclude)
+    projectFiles: Iterable<string>;
+    // The size of a file in the project folder, or undefined when it does not exist;
+    // packaged files can exist without being in projectFiles (excluded since the build)
+    getFileSize(relativePath: string): Promise<number | undefined>;
+    readFile(relativePath: string): Promise<Uint8Array>;
+    readEntry(entry: PackageEntry): Promise<Uint8Array>;
+}
+
+// Compare the entries of a package with the files of the project it was built from
+export async function checkPackageDrift(packageUri: vscode.Uri, projectFolder: vscode.Uri): Promise<PackageDrift> {
+    const packageInfo = await PackageParser.parse(packageUri);
+    const projectFiles = await findProjectFiles(projectFolder);
+    const reader = await PackageParser.openEntryReader(packageUri, packageInfo);
+    try {
+        return await comparePackageWithProject(packageInfo, {
+            projectFiles: projectFiles.keys(),
+            getFileSize: async relativePath => {
+                try {
+                    return (await vscode.workspace.fs.stat(vscode.Uri.joinPath(projectFolder, relativePath))).size;
+                } catch {
+                    return undefined;
+                }
+            },
+            readFile: async relativePath => vscode.workspace.fs.readFile(vscode.Uri.joinPath(projectFolder, relativePath)),
+            readEntry: entry => reader.read(entry)
+        });
+    } finally {
+        await reader.close();
+    }
+}
+
+export async function comparePackageWithProject(packageInfo: PackageInfo, sources: DriftSources): Promise<PackageDrift> {
+    const drift: PackageDrift = {
+        missingFromPackage: [],
+        missingOnDisk: [],
+        modified: []
+    };
+
+    const packagedPaths = new Set<string>();
+    for (const entry of packageInfo.entries) {
+        const relativePath = normalizeEntryPath(entry.relativePath);
+        packagedPaths.add(relativePath);
+
+        const size = await sources.getFileSize(relativePath);
+        if (size === undefined) {
+            drift.missingOnDisk.push(relativePath);
+            continue;
+        }
+
+        // Compare sizes first so unchanged large assets are only read when needed
+        if (BigInt(size) !== entry.uncompressedSize) {
+            drift.modified.push(relativePath);
+            continue;
+        }
+        const source = await sources.readFile(relativePath);
+        const packaged = await sources.readEntry(entry);
+        if (!Buffer.from(source).equals(packaged)) {
+            drift.modified.push(relativePath);
+        }
+    }
+
+    for (const relativePath of sources.projectFiles) {
+        if (!packagedPaths.has(relativePath)) {
+            drift.missingFromPackage.push(relativePath);
+        }
+    }
+
+    drift.missingFromPackage.sort();
+    drift.missingOnDisk.sort();
+    drift.modified.sort();
+    return drift;
+}
+
+export function describeDrift(drift: PackageDrift): string {
+    const parts: string[] = [];
+    if (drift.modified.length > 0) {
+        parts.push(`${drift.modified.length} changed`);
+    }
+    if (drift.missingFromPackage.length > 0) {
+        parts.push(`${drift.missingFromPackage.length} not packaged`);
+    }
+    if (drift.missingOnDisk.length > 0) {
+        parts.push(`${drift.missingOnDisk.length} no longer on disk`);
+    }
+    return parts.join(', ');
+}
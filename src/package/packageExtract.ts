@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { PackageEntry, PackageInfo, PackageParser, normalizeEntryPath } from './packageParser';
+
+// Write the given entries (decompressed) into a target folder, keeping their relative paths
+export async function extractPackageEntries(
+    packageUri: vscode.Uri,
+    packageInfo: PackageInfo,
+    entries: PackageEntry[],
+    targetFolder: vscode.Uri
+): Promise<number> {
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Extracting package',
+        cancellable: true
+    }, async (progress, token) => {
+        // One open file for the whole extraction, not one per entry
+        const reader = await PackageParser.openEntryReader(packageUri, packageInfo);
+        try {
+            let extracted = 0;
+            for (const entry of entries) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+
+                const relativePath = normalizeEntryPath(entry.relativePath);
+                // Never write outside the target folder, even for malformed entry paths
+                const segments = relativePath.split('/').filter(s => s !== '' && s !== '.' && s !== '..');
+                if (segments.length === 0) {
+                    continue;
+                }
+
+                progress.report({ message: relativePath, increment: 100 / entries.length });
+                const contents = await reader.read(entry);
+                await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(targetFolder, ...segments), contents);
+                extracted++;
+            }
+            return extracted;
+        } finally {
+            await reader.close();
+        }
+    });
+}
+
+// Ask for a target folder and extract the entries into it
+export async function promptExtractPackageEntries(
+    packageUri: vscode.Uri,
+    packageInfo: PackageInfo,
+    entries: PackageEntry[]
+): Promise<void> {
+    if (entries.length === 0) {
+        vscode.window.showWarningMessage('No package entries selected');
+        return;
+    }
+
+    const folder = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: 'Extract Here'
+    });
+    if (!folder || !folder[0]) {
+        return;
+    }
+
+    try {
+        const count = await extractPackageEntries(packageUri, packageInfo, entries, folder[0]);
+        const selection = await vscode.window.showInformationMessage(
+            `Extracted ${count} file${count === 1 ? '' : 's'} to ${folder[0].fsPath}`,
+            'Reveal'
+        );
+        if (selection === 'Reveal') {
+            vscode.commands.executeCommand('revealFileInOS', folder[0]);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to extract package: ${error}`);
+    }
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { PackageEntry, PackageInfo, PackageParser, normalizeEntryPath } from './packageParser';
+
+export const PACKAGE_SCHEME = 'xs-package';
+
+// Build a read-only URI for an entry inside a package
+// Format: xs-package:/<entry path>?<package uri>
+export function toPackageEntryUri(packageUri: vscode.Uri, relativePath: string): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: PACKAGE_SCHEME,
+        path: '/' + normalizeEntryPath(relativePath),
+        query: packageUri.toString()
+    });
+}
+
+function fromPackageEntryUri(uri: vscode.Uri): { packageUri: vscode.Uri; relativePath: string } {
+    if (!uri.query) {
+        throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return {
+        packageUri: vscode.Uri.parse(uri.query),
+        relativePath: normalizeEntryPath(uri.path)
+    };
+}
+
+interface CachedPackage {
+    mtime: number;
+    info: PackageInfo;
+}
+
+// Read-only file system that exposes the entries of an .xs package,
+// so they can be opened in regular editors
+export class PackageFileSystemProvider implements vscode.FileSystemProvider {
+    public static register(): vscode.Disposable {
+        const provider = new PackageFileSystemProvider();
+        return vscode.workspace.registerFileSystemProvider(PACKAGE_SCHEME, provider, {
+            isCaseSensitive: true,
+            isReadonly: true
+        });
+    }
+
+    private readonly cache = new Map<string, CachedPackage>();
+    private readonly onDidChangeFileEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this.onDidChangeFileEmitter.event;
+
+    watch(): vscode.Disposable {
+        // Packages are immutable from the point of view of this provider
+        return new vscode.Disposable(() => {});
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const { packageUri, relativePath } = fromPackageEntryUri(uri);
+        const packageStat = await vscode.workspace.fs.stat(packageUri);
+        const info = await this.getPackageInfo(packageUri, packageStat);
+
+        const entry = this.findEntry(info, relativePath);
+        if (entry) {
+            return {
+                type: vscode.FileType.File,
+                ctime: packageStat.ctime,
+                mtime: packageStat.mtime,
+                size: Number(entry.uncompressedSize),
+                permissions: vscode.FilePermission.Readonly
+            };
+        }
+
+        if (this.isDirectory(info, relativePath)) {
+            return {
+                type: vscode.FileType.Directory,
+                ctime: packageStat.ctime,
+                mtime: packageStat.mtime,
+                size: 0,
+                permissions: vscode.FilePermission.Readonly
+            };
+        }
+
+        throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const { packageUri, relativePath } = fromPackageEntryUri(uri);
+        const info = await this.getPackageInfo(packageUri);
+        const prefix = relativePath ? relativePath + '/' : '';
+
+        const children = new Map<string, vscode.FileType>();
+        for (const entry of info.entries) {
+            const entryPath = normalizeEntryPath(entry.relativePath);
+            if (!entryPath.startsWith(prefix)) {
+                continue;
+            }
+            const rest = entryPath.substring(prefix.length);
+            const slash = rest.indexOf('/');
+            if (slash === -1) {
+                children.set(rest, vscode.FileType.File);
+            } else {
+                children.set(rest.substring(0, slash), vscode.FileType.Directory);
+            }
+        }
+
+        if (children.size === 0 && relativePath) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return [...children.entries()];
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const { packageUri, relativePath } = fromPackageEntryUri(uri);
+        const info = await this.getPackageInfo(packageUri);
+        const entry = this.findEntry(info, relativePath);
+        if (!entry) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return PackageParser.readEntry(packageUri, info, entry);
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    writeFile(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+
+    // Parse the package once and reuse the result until the file changes on disk
+    private async getPackageInfo(packageUri: vscode.Uri, packageStat?: vscode.FileStat): Promise<PackageInfo> {
+        const stat = packageStat ?? await vscode.workspace.fs.stat(packageUri);
+        const key = packageUri.toString();
+        const cached = this.cache.get(key);
+        if (cached && cached.mtime === stat.mtime) {
+            return cached.info;
+        }
+
+        const info = await PackageParser.parse(packageUri);
+        this.cache.set(key, { mtime: stat.mtime, info });
+        return info;
+    }
+
+    private findEntry(info: PackageInfo, relativePath: string): PackageEntry | undefined {
+        return info.entries.find(e => normalizeEntryPath(e.relativePath) === relativePath);
+    }
+
+    private isDirectory(info: PackageInfo, relativePath: string): boolean {
+        if (!relativePath) {
+            return true;
+        }
+        const prefix = relativePath + '/';
+        return info.entries.some(e => normalizeEntryPath(e.relativePath).startsWith(prefix));
+    }
+}
@@ -0,0 +1,387 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { kMaxLength } from 'buffer';
+
+export interface PackageEntry {
+    relativePath: string;
+    uncompressedSize: bigint;
+    dataOffset: bigint;
+    dataLength: bigint;
+    isCompressed: boolean;
+}
+
+export interface PackageInfo {
+    magic: bigint;
+    version: number;
+    versionString: string;
+    entries: PackageEntry[];
+    // Byte offset where the data section starts; entry offsets are relative to it
+    dataSectionOffset: number;
+    fileSize: number;
+    // Problems found while validating the entry table
+    diagnostics: PackageDiagnostic[];
+}
+
+export interface PackageDiagnostic {
+    severity: 'error' | 'warning';
+    message: string;
+    // Index into PackageInfo.entries, when the problem concerns a single entry
+    entryIndex?: number;
+}
+
+export interface PackageEntryReader {
+    read(entry: PackageEntry): Promise<Uint8Array>;
+    close(): Promise<void>;
+}
+
+// Thrown when a package can't be read at all (bad magic, truncated entry table, ...)
+export class PackageFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PackageFormatError';
+    }
+}
+
+// Thrown internally when the entry table extends past the bytes read so far
+class NeedMoreDataError extends Error {
+    constructor(readonly requiredSize: number) {
+        super(`Need ${requiredSize} bytes`);
+    }
+}
+
+// Smallest possible entry record: path length, sizes, offset (u64 each) and the compressed flag
+const MIN_ENTRY_SIZE = 8 * 4 + 1;
+// Bytes read from the start of the file on the first attempt to parse the entry table
+const INITIAL_READ_SIZE = 64 * 1024;
+
+// Magic number to identify xs package files: 0x454E49474E455358 = "XSENGINE"
+export const PACKAGE_MAGIC_NUMBER = 0x454E49474E455358n;
+
+// Decode a package version from uint32 to "YY.BuildNumber" format
+export function decodePackageVersion(encodedVersion: number): string {
+    const year = (encodedVersion >> 16) & 0xFFFF;
+    const buildNumber = encodedVersion & 0xFFFF;
+    return `${year}.${buildNumber}`;
+}
+
+// Encode a "YY.BuildNumber" version string as stored in packages
+export function encodePackageVersion(versionString: string): number {
+    const match = /^(\d+)\.(\d+)$/.exec(versionString.trim());
+    if (!match) {
+        throw new Error(`Invalid package version "${versionString}" (expected YY.BuildNumber)`);
+    }
+    const year = Number(match[1]);
+    const buildNumber = Number(match[2]);
+    if (year > 0xFFFF || buildNumber > 0xFFFF) {
+        throw new Error(`Invalid package version "${versionString}" (components must be below 65536)`);
+    }
+    return ((year << 16) | buildNumber) >>> 0;
+}
+
+export class PackageParser {
+    private static readonly MAGIC_NUMBER = PACKAGE_MAGIC_NUMBER;
+
+    // Parse only the header and entry table; the data section is never loaded,
+    // so large packages open without reading their assets
+    static async parse(uri: vscode.Uri): Promise<PackageInfo> {
+        if (uri.scheme !== 'file') {
+            const data = await vscode.workspace.fs.readFile(uri);
+            return this.parseBuffer(Buffer.from(data));
+        }
+
+        const handle = await fs.promises.open(uri.fsPath, 'r');
+        try {
+            const fileSize = (await handle.stat()).size;
+            let readSize = Math.min(INITIAL_READ_SIZE, fileSize);
+            for (;;) {
+                const buffer = Buffer.alloc(readSize);
+                const { bytesRead } = await handle.read(buffer, 0, readSize, 0);
+                if (bytesRead < readSize) {
+                    // The file shrank since it was opened; asking again would never get the bytes
+                    throw new PackageFormatError(`Package is truncated: read ${bytesRead} of ${readSize} bytes`);
+                }
+                try {
+                    return this.parseHeader(buffer.subarray(0, bytesRead), fileSize);
+                } catch (error) {
+                    if (!(error instanceof NeedMoreDataError)) {
+                        throw error;
+                    }
+                    readSize = Math.min(Math.max(error.requiredSize, readSize * 2), fileSize);
+                }
+            }
+        } finally {
+            await handle.close();
+        }
+    }
+
+    static parseBuffer(buffer: Buffer): PackageInfo {
+        return this.parseHeader(buffer, buffer.length);
+    }
+
+    // Parse the header and entry table from the start of a package file
+    // `buffer` may hold just a prefix of the file; `fileSize` is the size of the whole file
+    private static parseHeader(buffer: Buffer, fileSize: number): PackageInfo {
+        let offset = 0;
+
+        // Make sure the next `size` bytes are available, or explain why they aren't
+        const ensureAvailable = (size: number, what: string) => {
+            if (offset + size > fileSize) {
+                throw new PackageFormatError(`Package is truncated: ${what} at offset ${offset} ends past the end of the file (${fileSize} bytes)`);
+            }
+            if (offset + size > buffer.length) {
+                throw new NeedMoreDataError(offset + size);
+            }
+        };
+
+        // Helper to read uint32_t (little-endian)
+        const readUInt32 = (what: string): number => {
+            ensureAvailable(4, what);
+            const value = buffer.readUInt32LE(offset);
+            offset += 4;
+            return value;
+        };
+
+        // Helper to read uint64_t (little-endian)
+        const readUInt64 = (what: string): bigint => {
+            ensureAvailable(8, what);
+            const value = buffer.readBigUInt64LE(offset);
+            offset += 8;
+            return value;
+        };
+
+        // Helper to read string (Cereal format: length + data)
+        const readString = (what: string): string => {
+            const length = readUInt64(`${what} length`);
+            if (length > BigInt(fileSize)) {
+                throw new PackageFormatError(`Package is corrupt: ${what} length ${length} exceeds the file size`);
+            }
+            ensureAvailable(Number(length), what);
+            const str = buffer.toString('utf8', offset, offset + Number(length));
+            offset += Number(length);
+            return str;
+        };
+
+        // Helper to read bool
+        const readBool = (what: string): boolean => {
+            ensureAvailable(1, what);
+            const value = buffer[offset] !== 0;
+            offset += 1;
+            return value;
+        };
+
+        // Read magic number (64-bit)
+        const magic = readUInt64('magic number');
+        if (magic !== this.MAGIC_NUMBER) {
+            throw new PackageFormatError(`Invalid package file: magic number mismatch (expected 0x${this.MAGIC_NUMBER.toString(16).toUpperCase()}, got 0x${magic.toString(16).toUpperCase()})`);
+        }
+
+        // Read version
+        const version = readUInt32('version');
+        const versionString = decodePackageVersion(version);
+
+        // Read entry count
+        const entryCount = readUInt64('entry count');
+        if (entryCount * BigInt(MIN_ENTRY_SIZE) > BigInt(fileSize - offset)) {
+            throw new PackageFormatError(`Package is corrupt: ${entryCount} entries cannot fit in a ${fileSize} byte file`);
+        }
+
+        const entries: PackageEntry[] = [];
+
+        // Read all entries
+        for (let i = 0; i < Number(entryCount); i++) {
+            const entry: PackageEntry = {
+                relativePath: readString(`entry ${i + 1} path`),
+                uncompressedSize: readUInt64(`entry ${i + 1} size`),
+                dataOffset: readUInt64(`entry ${i + 1} offset`),
+                dataLength: readUInt64(`entry ${i + 1} length`),
+                isCompressed: readBool(`entry ${i + 1} compression flag`)
+            };
+
+            entries.push(entry);
+        }
+
+        // offset now points to start of data section
+        const info: PackageInfo = {
+            magic,
+            version,
+            versionString,
+            entries,
+            dataSectionOffset: offset,
+            fileSize,
+            diagnostics: []
+        };
+        info.diagnostics = this.validate(info);
+        return info;
+    }
+
+    // Check entries against the file size and each other
+    private static validate(info: PackageInfo): PackageDiagnostic[] {
+        const diagnostics: PackageDiagnostic[] = [];
+        const dataSectionSize = BigInt(info.fileSize - info.dataSectionOffset);
+        const seenPaths = new Map<string, number>();
+
+        info.entries.forEach((entry, index) => {
+            const relativePath = normalizeEntryPath(entry.relativePath);
+            if (!relativePath) {
+                diagnostics.push({ severity: 'error', message: `Entry ${index + 1} has an empty path`, entryIndex: index });
+            } else if (relativePath.split('/').includes('..') || /^[a-zA-Z]:/.test(relativePath)) {
+                diagnostics.push({ severity: 'warning', message: `${entry.relativePath}: path points outside the package root`, entryIndex: index });
+            }
+
+            const previous = seenPaths.get(relativePath);
+            if (previous !== undefined) {
+                diagnostics.push({ severity: 'warning', message: `${entry.relativePath}: duplicate of entry ${previous + 1}`, entryIndex: index });
+            } else {
+                seenPaths.set(relativePath, index);
+            }
+
+            if (entry.dataOffset + entry.dataLength > dataSectionSize) {
+                diagnostics.push({
+                    severity: 'error',
+                    message: `${entry.relativePath}: data (offset ${entry.dataOffset}, length ${entry.dataLength}) extends past the end of the file`,
+                    entryIndex: index
+                });
+            }
+
+            if (!entry.isCompressed && entry.dataLength !== entry.uncompressedSize) {
+                diagnostics.push({
+                    severity: 'warning',
+                    message: `${entry.relativePath}: stored uncompressed, but its length (${entry.dataLength}) differs from its size (${entry.uncompressedSize})`,
+                    entryIndex: index
+                });
+            }
+        });
+
+        // Entries must not share bytes in the data section
+        const sorted = info.entries
+            .map((entry, index) => ({ entry, index }))
+            .filter(({ entry }) => entry.dataLength > 0n)
+            .sort((a, b) => (a.entry.dataOffset < b.entry.dataOffset ? -1 : a.entry.dataOffset > b.entry.dataOffset ? 1 : 0));
+        for (let i = 1; i < sorted.length; i++) {
+            const previous = sorted[i - 1];
+            const current = sorted[i];
+            if (current.entry.dataOffset < previous.entry.dataOffset + previous.entry.dataLength) {
+                diagnostics.push({
+                    severity: 'error',
+                    message: `${current.entry.relativePath}: data overlaps ${previous.entry.relativePath}`,
+                    entryIndex: current.index
+                });
+            }
+        }
+
+        return diagnostics;
+    }
+
+    // Read the contents of a single entry, decompressing it if needed
+    // Only the entry's own bytes are read from disk
+    static async readEntry(uri: vscode.Uri, packageInfo: PackageInfo, entry: PackageEntry): Promise<Uint8Array> {
+        const reader = await this.openEntryReader(uri, packageInfo);
+        try {
+            return await reader.read(entry);
+        } finally {
+            await reader.close();
+        }
+    }
+
+    // Read many entries of one package through a single open file; close the reader when done
+    static async openEntryReader(uri: vscode.Uri, packageInfo: PackageInfo): Promise<PackageEntryReader> {
+        if (uri.scheme !== 'file') {
+            const data = Buffer.from(await vscode.workspace.fs.readFile(uri));
+            return {
+                read: async entry => this.readEntryFromBuffer(data, packageInfo, entry),
+                close: async () => { }
+            };
+        }
+
+        const handle = await fs.promises.open(uri.fsPath, 'r');
+        return {
+            read: async entry => {
+                const { start, length } = this.getEntryRange(packageInfo, entry);
+                const buffer = Buffer.alloc(length);
+                const { bytesRead } = await handle.read(buffer, 0, length, start);
+                if (bytesRead !== length) {
+                    throw new PackageFormatError(`${entry.relativePath}: package is truncated (read ${bytesRead} of ${length} bytes)`);
+                }
+                return decompressEntry(buffer, entry);
+            },
+            close: () => handle.close()
+        };
+    }
+
+    static readEntryFromBuffer(buffer: Buffer, packageInfo: PackageInfo, entry: PackageEntry): Uint8Array {
+        const { start, length } = this.getEntryRange(packageInfo, entry);
+        return decompressEntry(buffer.subarray(start, start + length), entry);
+    }
+
+    private static getEntryRange(packageInfo: PackageInfo, entry: PackageEntry): { start: number; length: number } {
+        const start = BigInt(packageInfo.dataSectionOffset) + entry.dataOffset;
+        if (start + entry.dataLength > BigInt(packageInfo.fileSize)) {
+            throw new PackageFormatError(`${entry.relativePath}: data extends past the end of the package`);
+        }
+        return { start: Number(start), length: Number(entry.dataLength) };
+    }
+}
+
+// Compressed entries are zlib streams; accept raw deflate data as well
+export function decompressEntry(data: Uint8Array, entry: PackageEntry): Uint8Array {
+    if (!entry.isCompressed) {
+        return data;
+    }
+
+    // Never inflate past the size the entry table claims, so a crafted entry can't fill memory
+    if (entry.uncompressedSize > BigInt(kMaxLength)) {
+        throw new PackageFormatError(`Failed to decompress ${entry.relativePath}: its size (${entry.uncompressedSize} bytes) is too large to read`);
+    }
+    const options = { maxOutputLength: Math.max(Number(entry.uncompressedSize), 1) };
+    const isOverflow = (error: unknown) => (error as NodeJS.ErrnoException)?.code === 'ERR_BUFFER_TOO_LARGE';
+    const overflowError = () => new PackageFormatError(`Failed to decompress ${entry.relativePath}: data inflates past its size of ${entry.uncompressedSize} bytes`);
+
+    let result: Buffer;
+    try {
+        result = zlib.inflateSync(data, options);
+    } catch (zlibError) {
+        if (isOverflow(zlibError)) {
+            throw overflowError();
+        }
+        try {
+            result = zlib.inflateRawSync(data, options);
+        } catch (error) {
+            if (isOverflow(error)) {
+                throw overflowError();
+            }
+            throw new PackageFormatError(`Failed to decompress ${entry.relativePath}: ${error}`);
+        }
+    }
+
+    if (BigInt(result.length) !== entry.uncompressedSize) {
+        throw new PackageFormatError(`Failed to decompress ${entry.relativePath}: expected ${entry.uncompressedSize} bytes, got ${result.length}`);
+    }
+    return result;
+}
+
+// Package entry paths always use forward slashes, regardless of the platform the package was built on
+export function normalizeEntryPath(relativePath: string): string {
+    return relativePath.replace(/\\/g, '/').replace(/^\/+/, '');
+}
+
+export function getLanguageId(filePath: string): string {
+    const ext = path.extname(filePath).toLowerCase();
+    const langMap: { [key: string]: string } = {
+        '.json': 'json',
+        '.xsanim': 'json',
+        '.xssprite': 'json',
+        '.xstiles': 'json',
+        '.txt': 'plaintext',
+        '.wren': 'wren',
+        '.frag': 'glsl',
+        '.vert': 'glsl'
+    };
+    return langMap[ext] || 'plaintext';
+}
+
+// Whether an entry holds text that can be shown in a text (or diff) editor
+export function isTextEntry(filePath: string): boolean {
+    return getLanguageId(filePath) !== 'plaintext' || path.extname(filePath).toLowerCase() === '.txt';
+}
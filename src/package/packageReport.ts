@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PackageInfo, normalizeEntryPath } from './packageParser';
+
+export interface SizeGroup {
+    name: string;
+    files: number;
+    size: number;
+    packed: number;
+}
+
+// Totals shown in the package viewer header and breakdown, and used by the size report
+export interface PackageSummary {
+    files: number;
+    size: number;
+    packed: number;
+    // Percentage saved by compression
+    compressionRatio: number;
+    folders: SizeGroup[];
+    extensions: SizeGroup[];
+}
+
+// Packed size limits in bytes; every limit is optional
+export interface PackageBudget {
+    total?: number;
+    entry?: number;
+    folders?: { [folder: string]: number };
+    extensions?: { [extension: string]: number };
+}
+
+export interface BudgetViolation {
+    scope: 'total' | 'entry' | 'folder' | 'extension';
+    name: string;
+    limit: number;
+    actual: number;
+    message: string;
+}
+
+export interface PackageSizeReport {
+    package: string;
+    version: string;
+    generated: string;
+    summary: PackageSummary;
+    largestEntries: { path: string; size: number; packed: number }[];
+    budget?: PackageBudget;
+    violations: BudgetViolation[];
+}
+
+export function summarizePackage(info: PackageInfo): PackageSummary {
+    const folders = new Map<string, SizeGroup>();
+    const extensions = new Map<string, SizeGroup>();
+    const add = (groups: Map<string, SizeGroup>, name: string, size: number, packed: number) => {
+        const group = groups.get(name) || { name, files: 0, size: 0, packed: 0 };
+        group.files++;
+        group.size += size;
+        group.packed += packed;
+        groups.set(name, group);
+    };
+
+    let size = 0;
+    let packed = 0;
+    for (const entry of info.entries) {
+        const relativePath = normalizeEntryPath(entry.relativePath);
+        const entrySize = Number(entry.uncompressedSize);
+        const entryPacked = Number(entry.dataLength);
+        size += entrySize;
+        packed += entryPacked;
+        add(folders, getTopLevelFolder(relativePath), entrySize, entryPacked);
+        add(extensions, getExtension(relativePath), entrySize, entryPacked);
+    }
+
+    const bySize = (a: SizeGroup, b: SizeGroup) => b.packed - a.packed || a.name.localeCompare(b.name);
+    return {
+        files: info.entries.length,
+        size,
+        packed,
+        compressionRatio: size > 0 ? (1 - packed / size) * 100 : 0,
+        folders: [...folders.values()].sort(bySize),
+        extensions: [...extensions.values()].sort(bySize)
+    };
+}
+
+// "audio/music/theme.ogg" -> "audio/"; files in the package root are grouped as "(root)"
+function getTopLevelFolder(relativePath: string): string {
+    const slash = relativePath.indexOf('/');
+    return slash === -1 ? '(root)' : relativePath.substring(0, slash + 1);
+}
+
+function getExtension(relativePath: string): string {
+    return path.posix.extname(relativePath).toLowerCase() || '(none)';
+}
+
+// Parse "64MB", "512 KB", "1.5GB" or a plain number of bytes
+export function parseSize(value: unknown): number {
+    if (typeof value === 'number' && value >= 0) {
+        return value;
+    }
+    const match = typeof value === 'string' ? /^\s*(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?\s*$/i.exec(value) : null;
+    if (!match) {
+        throw new Error(`Invalid size "${value}", expected a number of bytes or a value like "64MB"`);
+    }
+    const units: { [unit: string]: number } = { B: 1, KB: 1024, MB: 1024 * 1024, GB: 1024 * 1024 * 1024 };
+    return Math.round(parseFloat(match[1]) * units[(match[2] || 'B').toUpperCase()]);
+}
+
+// Sizes are written as in project.json or settings: { "total": "64MB", "folders": { "audio/": "20MB" } }
+export function parseBudget(raw: any): PackageBudget {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new Error('Package budget must be an object');
+    }
+
+    const parseMap = (map: any, normalize: (key: string) => string) => {
+        const result: { [key: string]: number } = {};
+        for (const [key, value] of Object.entries(map || {})) {
+            result[normalize(key)] = parseSize(value);
+        }
+        return result;
+    };
+
+    const budget: PackageBudget = {};
+    if (raw.total !== undefined) {
+        budget.total = parseSize(raw.total);
+    }
+    if (raw.entry !== undefined) {
+        budget.entry = parseSize(raw.entry);
+    }
+    if (raw.folders) {
+        // "audio", "audio/" and "/audio" all mean the top-level audio folder
+        budget.folders = parseMap(raw.folders, key => normalizeEntryPath(key).replace(/\/*$/, '/'));
+    }
+    if (raw.extensions) {
+        budget.extensions = parseMap(raw.extensions, key => (key.startsWith('.') ? key : `.${key}`).toLowerCase());
+    }
+    return budget;
+}
+
+export function checkBudget(info: PackageInfo, summary: PackageSummary, budget: PackageBudget): BudgetViolation[] {
+    const violations: BudgetViolation[] = [];
+    const check = (scope: BudgetViolation['scope'], name: string, actual: number, limit: number | undefined, label: string) => {
+        if (limit !== undefined && actual > limit) {
+            violations.push({
+                scope,
+                name,
+                limit,
+                actual,
+                message: `${label} is ${formatSize(actual)}, over the budget of ${formatSize(limit)} by ${formatSize(actual - limit)}`
+            });
+        }
+    };
+
+    check('total', 'package', summary.packed, budget.total, 'Package');
+
+    for (const [folder, limit] of Object.entries(budget.folders || {})) {
+        const group = summary.folders.find(g => g.name === folder);
+        check('folder', folder, group ? group.packed : 0, limit, `Folder ${folder}`);
+    }
+
+    for (const [extension, limit] of Object.entries(budget.extensions || {})) {
+        const group = summary.extensions.find(g => g.name === extension);
+        check('extension', extension, group ? group.packed : 0, limit, `${extension} files`);
+    }
+
+    if (budget.entry !== undefined) {
+        for (const entry of info.entries) {
+            const relativePath = normalizeEntryPath(entry.relativePath);
+            check('entry', relativePath, Number(entry.dataLength), budget.entry, relativePath);
+        }
+    }
+
+    return violations;
+}
+
+export function createSizeReport(
+    packageName: string,
+    info: PackageInfo,
+    budget: PackageBudget | undefined,
+    largestCount: number = 20
+): PackageSizeReport {
+    const summary = summarizePackage(info);
+    const largestEntries = info.entries
+        .map(entry => ({
+            path: normalizeEntryPath(entry.relativePath),
+            size: Number(entry.uncompressedSize),
+            packed: Number(entry.dataLength)
+        }))
+        .sort((a, b) => b.packed - a.packed || a.path.localeCompare(b.path))
+        .slice(0, largestCount);
+
+    return {
+        package: packageName,
+        version: info.versionString,
+        generated: new Date().toISOString(),
+        summary,
+        largestEntries,
+        budget,
+        violations: budget ? checkBudget(info, summary, budget) : []
+    };
+}
+
+export function formatReportMarkdown(report: PackageSizeReport): string {
+    const { summary } = report;
+    const lines: string[] = [
+        `# Package size report: ${report.package}`,
+        '',
+        `Version ${report.version}, generated ${report.generated}`,
+        '',
+        '| Files | Uncompressed | Packed | Compression |',
+        '| ---: | ---: | ---: | ---: |',
+        `| ${summary.files} | ${formatSize(summary.size)} | ${formatSize(summary.packed)} | ${summary.compressionRatio.toFixed(1)}% |`,
+        ''
+    ];
+
+    if (report.budget) {
+        lines.push('## Budget', '');
+        if (report.violations.length === 0) {
+            lines.push('All size budgets are met.');
+        } else {
+            for (const violation of report.violations) {
+                lines.push(`- ❌ ${violation.message}`);
+            }
+        }
+        lines.push('');
+    }
+
+    const groupTable = (title: string, groups: SizeGroup[]) => {
+        lines.push(`## ${title}`, '', '| Name | Files | Uncompressed | Packed | Share |', '| --- | ---: | ---: | ---: | ---: |');
+        for (const group of groups) {
+            const share = summary.packed > 0 ? (group.packed / summary.packed) * 100 : 0;
+            lines.push(`| \`${group.name}\` | ${group.files} | ${formatSize(group.size)} | ${formatSize(group.packed)} | ${share.toFixed(1)}% |`);
+        }
+        lines.push('');
+    };
+    groupTable('By folder', summary.folders);
+    groupTable('By extension', summary.extensions);
+
+    lines.push(`## Largest entries`, '', '| Path | Uncompressed | Packed |', '| --- | ---: | ---: |');
+    for (const entry of report.largestEntries) {
+        lines.push(`| \`${entry.path}\` | ${formatSize(entry.size)} | ${formatSize(entry.packed)} |`);
+    }
+    lines.push('');
+
+    return lines.join('\n');
+}
+
+// Budget from the xs.package.budget setting, or the "PackageBudget" object in project.json
+export async function loadPackageBudget(projectFolder: vscode.Uri | undefined): Promise<{ budget: PackageBudget; source: vscode.Uri | undefined } | undefined> {
+    const setting = vscode.workspace.getConfiguration('xs', projectFolder).get<object | null>('package.budget', null);
+    if (setting && Object.keys(setting).length > 0) {
+        return { budget: parseBudget(setting), source: undefined };
+    }
+    if (!projectFolder) {
+        return undefined;
+    }
+
+    const projectJsonUri = vscode.Uri.joinPath(projectFolder, 'project.json');
+    let projectData: any;
+    try {
+        projectData = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(projectJsonUri)).toString('utf8'));
+    } catch {
+        return undefined;
+    }
+    if (!projectData.PackageBudget) {
+        return undefined;
+    }
+    return { budget: parseBudget(projectData.PackageBudget), source: projectJsonUri };
+}
+
+// Write <package>.report.json and <package>.report.md next to the package, or into outputFolder
+export async function writeSizeReport(packageUri: vscode.Uri, report: PackageSizeReport, outputFolder?: vscode.Uri): Promise<vscode.Uri[]> {
+    const folder = outputFolder || vscode.Uri.joinPath(packageUri, '..');
+    const baseName = path.basename(packageUri.path, path.extname(packageUri.path));
+    const jsonUri = vscode.Uri.joinPath(folder, `${baseName}.report.json`);
+    const markdownUri = vscode.Uri.joinPath(folder, `${baseName}.report.md`);
+
+    await vscode.workspace.fs.createDirectory(folder);
+    await vscode.workspace.fs.writeFile(jsonUri, Buffer.from(JSON.stringify(report, null, 2)));
+    await vscode.workspace.fs.writeFile(markdownUri, Buffer.from(formatReportMarkdown(report)));
+    return [jsonUri, markdownUri];
+}
+
+export function formatSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    return `${(bytes / 1024).toFixed(1)} KB`;
+}
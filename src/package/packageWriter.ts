@@ -0,0 +1,77 @@
+import * as zlib from 'zlib';
+import { PACKAGE_MAGIC_NUMBER, normalizeEntryPath } from './packageParser';
+
+export interface PackageSourceFile {
+    relativePath: string;
+    data: Uint8Array;
+}
+
+export interface PackageWriterOptions {
+    // Encoded engine version (see encodePackageVersion)
+    version: number;
+    // Compress entries that get smaller when deflated
+    compress: boolean;
+}
+
+// Writes .xs packages in the layout PackageParser reads:
+// magic, version, entry table (Cereal binary format) and the data section
+export class PackageWriter {
+    static write(files: PackageSourceFile[], options: PackageWriterOptions): Buffer {
+        const entries: { relativePath: string; uncompressedSize: number; data: Uint8Array; isCompressed: boolean }[] = [];
+        for (const file of files) {
+            let data = file.data;
+            let isCompressed = false;
+            if (options.compress && file.data.length > 0) {
+                const compressed = zlib.deflateSync(file.data, { level: zlib.constants.Z_BEST_COMPRESSION });
+                // Already compressed formats (png, ogg, ...) usually don't shrink any further
+                if (compressed.length < file.data.length) {
+                    data = compressed;
+                    isCompressed = true;
+                }
+            }
+            entries.push({
+                relativePath: normalizeEntryPath(file.relativePath),
+                uncompressedSize: file.data.length,
+                data,
+                isCompressed
+            });
+        }
+
+        // Header: magic (u64), version (u32), entry count (u64)
+        const chunks: Buffer[] = [];
+        const header = Buffer.alloc(20);
+        header.writeBigUInt64LE(PACKAGE_MAGIC_NUMBER, 0);
+        header.writeUInt32LE(options.version >>> 0, 8);
+        header.writeBigUInt64LE(BigInt(entries.length), 12);
+        chunks.push(header);
+
+        // Entry table: path (u64 length + utf8), uncompressed size, data offset, data length (u64), compressed (bool)
+        // Data offsets are relative to the start of the data section
+        let dataOffset = 0;
+        for (const entry of entries) {
+            const pathBytes = Buffer.from(entry.relativePath, 'utf8');
+            const record = Buffer.alloc(8 + pathBytes.length + 8 * 3 + 1);
+            let offset = 0;
+            record.writeBigUInt64LE(BigInt(pathBytes.length), offset);
+            offset += 8;
+            pathBytes.copy(record, offset);
+            offset += pathBytes.length;
+            record.writeBigUInt64LE(BigInt(entry.uncompressedSize), offset);
+            offset += 8;
+            record.writeBigUInt64LE(BigInt(dataOffset), offset);
+            offset += 8;
+            record.writeBigUInt64LE(BigInt(entry.data.length), offset);
+            offset += 8;
+            record[offset] = entry.isCompressed ? 1 : 0;
+            chunks.push(record);
+            dataOffset += entry.data.length;
+        }
+
+        // Data section
+        for (const entry of entries) {
+            chunks.push(Buffer.from(entry.data.buffer, entry.data.byteOffset, entry.data.byteLength));
+        }
+
+        return Buffer.concat(chunks);
+    }
+}
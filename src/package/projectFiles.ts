@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// Combine several glob patterns into one
+function joinPatterns(patterns: string[]): string {
+    return patterns.length === 1 ? patterns[0] : `{${patterns.join(',')}}`;
+}
+
+// List the files of a project that go into its package (xs.package.include minus
+// xs.package.exclude), keyed by their forward-slash path relative to the project folder
+export async function findProjectFiles(projectFolder: vscode.Uri): Promise<Map<string, vscode.Uri>> {
+    const config = vscode.workspace.getConfiguration('xs.package', projectFolder);
+    const include = config.get<string[]>('include', ['**/*']);
+    const exclude = config.get<string[]>('exclude', []);
+    if (include.length === 0) {
+        return new Map();
+    }
+
+    const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(projectFolder, joinPatterns(include)),
+        exclude.length > 0 ? new vscode.RelativePattern(projectFolder, joinPatterns(exclude)) : null
+    );
+
+    const result = new Map<string, vscode.Uri>();
+    files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+    for (const uri of files) {
+        const relativePath = path.relative(projectFolder.fsPath, uri.fsPath).replace(/\\/g, '/');
+        result.set(relativePath, uri);
+    }
+    return result;
+}
+
+// Find the project a package was built from: packages live in <project>/.package/,
+// otherwise fall back to the workspace folder that contains the package
+export async function findProjectFolderForPackage(packageUri: vscode.Uri): Promise<vscode.Uri | undefined> {
+    const candidates: vscode.Uri[] = [];
+    const packageDir = path.dirname(packageUri.fsPath);
+    if (path.basename(packageDir) === '.package') {
+        candidates.push(vscode.Uri.file(path.dirname(packageDir)));
+    }
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(packageUri);
+    if (workspaceFolder) {
+        candidates.push(workspaceFolder.uri);
+    }
+
+    for (const candidate of candidates) {
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.joinPath(candidate, 'project.json'));
+            return candidate;
+        } catch {
+            // Not a project folder, try the next one
+        }
+    }
+    return undefined;
+}
+
+// Find the project that owns a file (an asset, script or package): the closest folder above
+// it with a project.json, not leaving its workspace folder; falls back to the workspace folder
+export async function findProjectFolderForFile(uri: vscode.Uri): Promise<vscode.Uri | undefined> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    let folder = path.dirname(uri.fsPath);
+    while (true) {
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.file(path.join(folder, 'project.json')));
+            return vscode.Uri.file(folder);
+        } catch {
+            // Not a project folder, try the parent
+        }
+        const parent = path.dirname(folder);
+        if (parent === folder || (workspaceFolder && folder === workspaceFolder.uri.fsPath)) {
+            break;
+        }
+        folder = parent;
+    }
+    return workspaceFolder?.uri;
+}
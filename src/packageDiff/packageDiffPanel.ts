@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PackageDiff, PackageEntryDiff, diffPackages } from '../package/packageDiff';
+import { getLanguageId, isTextEntry } from '../package/packageParser';
+import { toPackageEntryUri } from '../package/packageFileSystem';
+
+export class PackageDiffPanel {
+    public static readonly viewType = 'xs.packageDiff';
+
+    // Ask for the two packages to compare, unless they were passed in (e.g. from the explorer)
+    public static async show(context: vscode.ExtensionContext, oldUri?: vscode.Uri, newUri?: vscode.Uri): Promise<void> {
+        if (!oldUri) {
+            oldUri = await this.pickPackage('Select old package');
+        }
+        if (!oldUri) {
+            return;
+        }
+        if (!newUri) {
+            newUri = await this.pickPackage('Select new package', oldUri);
+        }
+        if (!newUri) {
+            return;
+        }
+
+        let diff: PackageDiff;
+        try {
+            diff = await diffPackages(oldUri, newUri);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to compare packages: ${error}`);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            this.viewType,
+            `${path.basename(oldUri.fsPath)} ↔ ${path.basename(newUri.fsPath)}`,
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                localResourceRoots: [
+                    vscode.Uri.joinPath(context.extensionUri, 'src', 'packageDiff')
+                ]
+            }
+        );
+        new PackageDiffPanel(context, panel, oldUri, newUri, diff);
+    }
+
+    private static async pickPackage(openLabel: string, defaultUri?: vscode.Uri): Promise<vscode.Uri | undefined> {
+        const selected = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel,
+            defaultUri,
+            filters: { 'xs packages': ['xs'] }
+        });
+        return selected?.[0];
+    }
+
+    private constructor(
+        context: vscode.ExtensionContext,
+        panel: vscode.WebviewPanel,
+        private readonly oldUri: vscode.Uri,
+        private readonly newUri: vscode.Uri,
+        private readonly diff: PackageDiff
+    ) {
+        const webview = panel.webview;
+        const cssUri = webview.asWebviewUri(
+            vscode.Uri.joinPath(context.extensionUri, 'src', 'packageDiff', 'packageDiffWebview.css')
+        );
+        const jsUri = webview.asWebviewUri(
+            vscode.Uri.joinPath(context.extensionUri, 'src', 'packageDiff', 'packageDiffWebview.js')
+        );
+        webview.html = this.getHtmlContent(cssUri, jsUri);
+
+        // Handle messages from the webview
+        webview.onDidReceiveMessage(async message => {
+            switch (message.type) {
+                case 'openDiff':
+                    await this.openEntryDiff(message.path);
+                    break;
+            }
+        });
+    }
+
+    // Open changed text entries in the diff editor; added/removed ones are opened on their own
+    private async openEntryDiff(relativePath: string) {
+        const entry = this.diff.entries.find(e => e.relativePath === relativePath);
+        if (!entry || !isTextEntry(relativePath)) {
+            return;
+        }
+
+        const oldEntryUri = toPackageEntryUri(this.oldUri, relativePath);
+        const newEntryUri = toPackageEntryUri(this.newUri, relativePath);
+        const languageId = getLanguageId(relativePath);
+        try {
+            if (entry.change === 'added' || entry.change === 'removed') {
+                const document = await vscode.workspace.openTextDocument(entry.change === 'added' ? newEntryUri : oldEntryUri);
+                await vscode.languages.setTextDocumentLanguage(document, languageId);
+                await vscode.window.showTextDocument(document, { preview: true });
+                return;
+            }
+
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                oldEntryUri,
+                newEntryUri,
+                `${path.basename(relativePath)} (${path.basename(this.oldUri.fsPath)} ↔ ${path.basename(this.newUri.fsPath)})`
+            );
+
+            // The diff editor opens the entries as plain text, give both sides their language
+            for (const document of vscode.workspace.textDocuments) {
+                const uri = document.uri.toString();
+                if (uri === oldEntryUri.toString() || uri === newEntryUri.toString()) {
+                    await vscode.languages.setTextDocumentLanguage(document, languageId);
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open ${relativePath}: ${error}`);
+        }
+    }
+
+    private getHtmlContent(cssUri: vscode.Uri, jsUri: vscode.Uri): string {
+        const entries = this.diff.entries;
+        const count = (change: string) => entries.filter(e => e.change === change).length;
+        const oldTotal = this.diff.oldInfo.entries.reduce((sum, e) => sum + Number(e.dataLength), 0);
+        const newTotal = this.diff.newInfo.entries.reduce((sum, e) => sum + Number(e.dataLength), 0);
+
+        const rows = entries.map(entry => `
+            <tr class="entry ${entry.change}${isTextEntry(entry.relativePath) ? ' text' : ''}" data-path="${this.escapeHtml(entry.relativePath)}" data-change="${entry.change}">
+                <td class="change">${this.getChangeLabel(entry)}</td>
+                <td class="path">${this.escapeHtml(entry.relativePath)}</td>
+                <td class="size">${this.formatSize(entry.oldSize)}</td>
+                <td class="size">${this.formatSize(entry.newSize)}</td>
+                <td class="size delta">${this.formatDelta(entry)}</td>
+            </tr>
+        `).join('');
+
+        return `<!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <link rel="stylesheet" href="${cssUri}">
+        </head>
+        <body>
+            <div class="header">
+                <h2>Package Diff</h2>
+                <div class="version">
+                    ${this.escapeHtml(this.oldUri.fsPath)} (${this.escapeHtml(this.diff.oldInfo.versionString)})
+                    → ${this.escapeHtml(this.newUri.fsPath)} (${this.escapeHtml(this.diff.newInfo.versionString)})
+                </div>
+                <div class="stats">
+                    <label class="stat-item"><input type="checkbox" class="filter" data-change="added" checked /> <span class="stat-label added">Added:</span> ${count('added')}</label>
+                    <label class="stat-item"><input type="checkbox" class="filter" data-change="removed" checked /> <span class="stat-label removed">Removed:</span> ${count('removed')}</label>
+                    <label class="stat-item"><input type="checkbox" class="filter" data-change="changed" checked /> <span class="stat-label changed">Changed:</span> ${count('changed')}</label>
+                    <label class="stat-item"><input type="checkbox" class="filter" data-change="unchanged" /> <span class="stat-label">Unchanged:</span> ${count('unchanged')}</label>
+                    <div class="stat-item">
+                        <span class="stat-label">Package Size:</span>
+                        <span>${this.formatSize(oldTotal)} → ${this.formatSize(newTotal)} (${this.formatBytesDelta(newTotal - oldTotal)})</span>
+                    </div>
+                </div>
+                <div class="hint">Double-click a changed text entry to open it in the diff editor</div>
+            </div>
+            <table>
+                <thead>
+                    <tr>
+                        <th></th>
+                        <th>Path</th>
+                        <th style="text-align: right">Old Size</th>
+                        <th style="text-align: right">New Size</th>
+                        <th style="text-align: right">Delta</th>
+                    </tr>
+                </thead>
+                <tbody id="entries">
+                    ${rows}
+                </tbody>
+            </table>
+
+            <script src="${jsUri}"></script>
+        </body>
+        </html>`;
+    }
+
+    private getChangeLabel(entry: PackageEntryDiff): string {
+        switch (entry.change) {
+            case 'added': return '+';
+            case 'removed': return '−';
+            case 'changed': return '~';
+            default: return '';
+        }
+    }
+
+    private formatSize(bytes: number | undefined): string {
+        return bytes === undefined ? '' : `${(bytes / 1024).toFixed(1)} KB`;
+    }
+
+    private formatDelta(entry: PackageEntryDiff): string {
+        if (entry.change === 'unchanged') {
+            return '';
+        }
+        return this.formatBytesDelta((entry.newSize ?? 0) - (entry.oldSize ?? 0));
+    }
+
+    private formatBytesDelta(bytes: number): string {
+        const sign = bytes > 0 ? '+' : bytes < 0 ? '−' : '±';
+        return `${sign}${(Math.abs(bytes) / 1024).toFixed(1)} KB`;
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+}
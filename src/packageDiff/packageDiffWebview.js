@@ -0,0 +1,52 @@
+/**
+ * Package Diff Webview
+ * Runs in the browser context of the webview
+ */
+
+// Initialize VS Code API
+const vscode = acquireVsCodeApi();
+
+// Change types currently shown in the table
+let visibleChanges = new Set(['added', 'removed', 'changed']);
+
+// Initialize function
+function initialize() {
+    setupEventListeners();
+    applyFilter();
+}
+
+// Event listeners setup
+function setupEventListeners() {
+    document.querySelectorAll('.filter').forEach(checkbox => {
+        checkbox.addEventListener('change', (e) => {
+            const change = e.target.dataset.change;
+            if (e.target.checked) {
+                visibleChanges.add(change);
+            } else {
+                visibleChanges.delete(change);
+            }
+            applyFilter();
+        });
+    });
+
+    // Double-clicking a text entry opens it (changed entries in the diff editor)
+    document.getElementById('entries').addEventListener('dblclick', (e) => {
+        const row = e.target.closest('tr.entry');
+        if (!row || !row.classList.contains('text')) {
+            return;
+        }
+        vscode.postMessage({
+            type: 'openDiff',
+            path: row.dataset.path
+        });
+    });
+}
+
+function applyFilter() {
+    document.querySelectorAll('tr.entry').forEach(row => {
+        row.style.display = visibleChanges.has(row.dataset.change) ? '' : 'none';
+    });
+}
+
+// Initialize on page load
+initialize();
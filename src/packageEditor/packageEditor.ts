@@ -0,0 +1,366 @@
+import * as vscode from 'vscode';
+import { PackageInfo, PackageParser, getLanguageId, isTextEntry, normalizeEntryPath } from '../package/packageParser';
+import { toPackageEntryUri } from '../package/packageFileSystem';
+import { promptExtractPackageEntries } from '../package/packageExtract';
+import { checkPackageDrift, describeDrift, hasDrift } from '../package/packageDrift';
+import { findProjectFolderForPackage } from '../package/projectFiles';
+import { loadEntryPreview } from './packagePreview';
+import { summarizePackage } from '../package/packageReport';
+import { getPackageVersionMismatch } from '../engine';
+import { EngineManager } from '../engineManager';
+
+export class PackageEditorProvider implements vscode.CustomReadonlyEditorProvider {
+    public static register(context: vscode.ExtensionContext, engines: EngineManager): vscode.Disposable {
+        const provider = new PackageEditorProvider(context, engines);
+        return vscode.window.registerCustomEditorProvider('xs.packageViewer', provider);
+    }
+
+    constructor(private readonly context: vscode.ExtensionContext, private readonly engines: EngineManager) {}
+
+    async openCustomDocument(uri: vscode.Uri): Promise<vscode.CustomDocument> {
+        return { uri, dispose: () => {} };
+    }
+
+    async resolveCustomEditor(
+        document: vscode.CustomDocument,
+        webviewPanel: vscode.WebviewPanel
+    ): Promise<void> {
+        webviewPanel.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                vscode.Uri.joinPath(this.context.extensionUri, 'node_modules', '@vscode', 'webview-ui-toolkit', 'dist'),
+                vscode.Uri.joinPath(this.context.extensionUri, 'src', 'packageEditor')
+            ]
+        };
+
+        let packageInfo: PackageInfo;
+        try {
+            packageInfo = await PackageParser.parse(document.uri);
+        } catch (error) {
+            webviewPanel.webview.html = this.getErrorHtml(error);
+            return;
+        }
+
+        // Get toolkit URI
+        const toolkitUri = webviewPanel.webview.asWebviewUri(
+            vscode.Uri.joinPath(
+                this.context.extensionUri,
+                'node_modules',
+                '@vscode',
+                'webview-ui-toolkit',
+                'dist',
+                'toolkit.js'
+            )
+        );
+
+        // Get URIs for external webview files
+        const cssUri = webviewPanel.webview.asWebviewUri(
+            vscode.Uri.joinPath(this.context.extensionUri, 'src', 'packageEditor', 'packageEditorWebview.css')
+        );
+        const jsUri = webviewPanel.webview.asWebviewUri(
+            vscode.Uri.joinPath(this.context.extensionUri, 'src', 'packageEditor', 'packageEditorWebview.js')
+        );
+
+        webviewPanel.webview.html = this.getHtmlContent(packageInfo, toolkitUri, cssUri, jsUri);
+
+        // Compare the package with the project it was built from, in the background
+        const projectFolder = await findProjectFolderForPackage(document.uri);
+        if (projectFolder) {
+            this.updateDriftBanner(document.uri, projectFolder, webviewPanel);
+        }
+
+        // Warn when the package was built for a different engine than its project uses
+        this.updateVersionBanner(packageInfo, projectFolder, webviewPanel);
+        const engineSubscription = this.engines.onDidChange(() => {
+            this.updateVersionBanner(packageInfo, projectFolder, webviewPanel);
+        });
+        webviewPanel.onDidDispose(() => {
+            engineSubscription.dispose();
+        });
+
+        // Handle messages from the webview
+        webviewPanel.webview.onDidReceiveMessage(async message => {
+            switch (message.type) {
+                case 'openEntry': {
+                    const entry = packageInfo.entries[message.index];
+                    if (entry) {
+                        await this.openEntry(document.uri, entry.relativePath);
+                    }
+                    break;
+                }
+                case 'preview': {
+                    const entry = packageInfo.entries[message.index];
+                    if (!entry) {
+                        break;
+                    }
+                    try {
+                        const preview = await loadEntryPreview(document.uri, packageInfo, entry);
+                        webviewPanel.webview.postMessage({ type: 'preview', index: message.index, preview });
+                    } catch (error) {
+                        webviewPanel.webview.postMessage({
+                            type: 'preview',
+                            index: message.index,
+                            preview: { kind: 'none', path: normalizeEntryPath(entry.relativePath), size: 0, message: `Failed to read entry: ${error}` }
+                        });
+                    }
+                    break;
+                }
+                case 'extract': {
+                    // An empty index list means the whole package
+                    const indices: number[] = message.indices || [];
+                    const entries = indices.length > 0
+                        ? indices.map(i => packageInfo.entries[i]).filter(e => e !== undefined)
+                        : packageInfo.entries;
+                    await promptExtractPackageEntries(document.uri, packageInfo, entries);
+                    break;
+                }
+                case 'openSource':
+                    if (projectFolder) {
+                        await vscode.commands.executeCommand('vscode.open', vscode.Uri.joinPath(projectFolder, message.path));
+                    }
+                    break;
+                case 'openPackagedEntry':
+                    await this.openEntry(document.uri, message.path);
+                    break;
+                case 'recheckDrift':
+                    if (projectFolder) {
+                        this.updateDriftBanner(document.uri, projectFolder, webviewPanel);
+                    }
+                    break;
+                case 'rebuild':
+                    vscode.commands.executeCommand('xs-vscode.packageGame', projectFolder);
+                    break;
+                case 'showEngineInfo':
+                    vscode.commands.executeCommand('xs-vscode.showEngineInfo');
+                    break;
+            }
+        });
+    }
+
+    private async updateDriftBanner(packageUri: vscode.Uri, projectFolder: vscode.Uri, webviewPanel: vscode.WebviewPanel) {
+        try {
+            const drift = await checkPackageDrift(packageUri, projectFolder);
+            webviewPanel.webview.postMessage({
+                type: 'drift',
+                drift,
+                summary: hasDrift(drift) ? describeDrift(drift) : ''
+            });
+        } catch {
+            // The banner is optional; an unreadable project or package just leaves it hidden
+        }
+    }
+
+    private async updateVersionBanner(packageInfo: PackageInfo, projectFolder: vscode.Uri | undefined, webviewPanel: vscode.WebviewPanel) {
+        const engineVersion = (await this.engines.resolve(projectFolder)).version;
+        const mismatch = getPackageVersionMismatch(packageInfo, engineVersion);
+        webviewPanel.webview.postMessage({
+            type: 'version',
+            mismatch: mismatch || null,
+            canRebuild: projectFolder !== undefined
+        });
+    }
+
+    // Open a package entry read-only; text files get a proper language, everything else
+    // goes through VS Code's default editor resolution (e.g. the image preview)
+    private async openEntry(packageUri: vscode.Uri, relativePath: string) {
+        const entryUri = toPackageEntryUri(packageUri, relativePath);
+        try {
+            if (isTextEntry(relativePath)) {
+                const textDocument = await vscode.workspace.openTextDocument(entryUri);
+                await vscode.languages.setTextDocumentLanguage(textDocument, getLanguageId(relativePath));
+                await vscode.window.showTextDocument(textDocument, { preview: true });
+            } else {
+                await vscode.commands.executeCommand('vscode.open', entryUri);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open ${relativePath}: ${error}`);
+        }
+    }
+
+    private getHtmlContent(packageInfo: PackageInfo, toolkitUri: vscode.Uri, cssUri: vscode.Uri, jsUri: vscode.Uri): string {
+        const entries = packageInfo.entries;
+        const summary = summarizePackage(packageInfo);
+
+        // Worst diagnostic per entry, used to flag rows
+        const entrySeverity = new Map<number, string>();
+        for (const diagnostic of packageInfo.diagnostics) {
+            if (diagnostic.entryIndex !== undefined && entrySeverity.get(diagnostic.entryIndex) !== 'error') {
+                entrySeverity.set(diagnostic.entryIndex, diagnostic.severity);
+            }
+        }
+
+        // The webview builds the folder tree from this flat list
+        const viewData = entries.map((entry, index) => ({
+            index,
+            path: normalizeEntryPath(entry.relativePath),
+            size: Number(entry.uncompressedSize),
+            packed: Number(entry.dataLength),
+            compressed: entry.isCompressed,
+            severity: entrySeverity.get(index) || null
+        }));
+        const breakdown = { folders: summary.folders, extensions: summary.extensions, packed: summary.packed };
+
+        const diagnostics = packageInfo.diagnostics.length === 0 ? '' : `
+            <div class="diagnostics">
+                <div class="diagnostics-header">Package problems (${packageInfo.diagnostics.length})</div>
+                ${packageInfo.diagnostics.map(d => `
+                    <div class="diagnostic ${d.severity}"${d.entryIndex !== undefined ? ` data-index="${d.entryIndex}"` : ''}>
+                        <span class="codicon codicon-${d.severity}"></span>
+                        <span>${this.escapeHtml(d.message)}</span>
+                    </div>
+                `).join('')}
+            </div>
+        `;
+
+        return `<!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <script type="module" src="${toolkitUri}"></script>
+            <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/@vscode/codicons@0.0.35/dist/codicon.css">
+            <link rel="stylesheet" href="${cssUri}">
+        </head>
+        <body>
+            <div class="banner" id="drift-banner">
+                <div class="banner-message">
+                    <span class="codicon codicon-warning"></span>
+                    <span>Package is out of date with the project: <span id="drift-summary"></span></span>
+                </div>
+                <div class="banner-actions">
+                    <vscode-button appearance="secondary" id="drift-details-btn">Details</vscode-button>
+                    <vscode-button appearance="secondary" id="drift-recheck-btn">Recheck</vscode-button>
+                    <vscode-button id="drift-rebuild-btn">Rebuild Package</vscode-button>
+                </div>
+                <div class="banner-details" id="drift-details"></div>
+            </div>
+            <div class="banner" id="version-banner">
+                <div class="banner-message">
+                    <span class="codicon codicon-warning"></span>
+                    <span id="version-message"></span>
+                </div>
+                <div class="banner-actions">
+                    <vscode-button appearance="secondary" id="version-engine-btn">Engine Info</vscode-button>
+                    <vscode-button id="version-rebuild-btn">Rebuild Package</vscode-button>
+                </div>
+            </div>
+            <div class="header">
+                <h2>Package Contents</h2>
+                <div class="version">Version: ${this.escapeHtml(packageInfo.versionString)}</div>
+                <div class="stats">
+                    <div class="stat-item">
+                        <span class="stat-label">Files:</span>
+                        <span>${entries.length}</span>
+                    </div>
+                    <div class="stat-item">
+                        <span class="stat-label">Uncompressed:</span>
+                        <span>${(summary.size / 1024).toFixed(1)} KB</span>
+                    </div>
+                    <div class="stat-item">
+                        <span class="stat-label">Package Size:</span>
+                        <span>${(summary.packed / 1024).toFixed(1)} KB</span>
+                    </div>
+                    <div class="stat-item">
+                        <span class="stat-label">Compression:</span>
+                        <span>${summary.compressionRatio.toFixed(1)}%</span>
+                    </div>
+                </div>
+                <div class="toolbar">
+                    <vscode-button appearance="secondary" id="extract-selected-btn" disabled>
+                        <span slot="start" class="codicon codicon-export"></span>
+                        Extract Selected
+                    </vscode-button>
+                    <vscode-button appearance="secondary" id="extract-all-btn">
+                        <span slot="start" class="codicon codicon-folder-opened"></span>
+                        Extract All
+                    </vscode-button>
+                </div>
+            </div>
+            ${diagnostics}
+            <div class="breakdown" id="breakdown">
+                <div class="breakdown-chart">
+                    <div class="breakdown-title">Packed size by folder</div>
+                    <div id="breakdown-folders"></div>
+                </div>
+                <div class="breakdown-chart">
+                    <div class="breakdown-title">Packed size by extension</div>
+                    <div id="breakdown-extensions"></div>
+                </div>
+            </div>
+            <div class="list-toolbar">
+                <input type="text" id="filter" class="filter" placeholder="Filter (glob, e.g. **/*.png)" />
+                <vscode-button appearance="icon" aria-label="Use Regular Expression" title="Use Regular Expression" id="regex-btn">
+                    <span class="codicon codicon-regex"></span>
+                </vscode-button>
+                <vscode-button appearance="icon" aria-label="Tree View" title="Toggle Tree / Flat List" id="view-mode-btn">
+                    <span class="codicon codicon-list-flat" id="view-mode-icon"></span>
+                </vscode-button>
+                <vscode-button appearance="icon" aria-label="Expand All" title="Expand All" id="expand-all-btn">
+                    <span class="codicon codicon-expand-all"></span>
+                </vscode-button>
+                <vscode-button appearance="icon" aria-label="Collapse All" title="Collapse All" id="collapse-all-btn">
+                    <span class="codicon codicon-collapse-all"></span>
+                </vscode-button>
+                <vscode-button appearance="icon" aria-label="Size Breakdown" title="Toggle Size Breakdown" id="breakdown-btn">
+                    <span class="codicon codicon-graph"></span>
+                </vscode-button>
+                <span class="filter-status" id="filter-status"></span>
+            </div>
+            <div class="content">
+                <div class="entry-list">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th class="select"><input type="checkbox" id="select-all" title="Select all" /></th>
+                                <th class="sortable" data-sort="name">Path <span class="sort-indicator"></span></th>
+                                <th class="sortable" data-sort="size" style="text-align: right">Uncompressed <span class="sort-indicator"></span></th>
+                                <th class="sortable" data-sort="packed" style="text-align: right">Packed <span class="sort-indicator"></span></th>
+                                <th class="sortable" data-sort="compressed" style="text-align: center">Compressed <span class="sort-indicator"></span></th>
+                            </tr>
+                        </thead>
+                        <tbody id="entries">
+                        </tbody>
+                    </table>
+                </div>
+                <div class="preview-pane" id="preview-pane">
+                    <div class="preview-header">
+                        <span class="preview-title" id="preview-title"></span>
+                        <vscode-button appearance="icon" aria-label="Open" title="Open Entry" id="preview-open-btn">
+                            <span class="codicon codicon-go-to-file"></span>
+                        </vscode-button>
+                        <vscode-button appearance="icon" aria-label="Close Preview" title="Close Preview" id="preview-close-btn">
+                            <span class="codicon codicon-close"></span>
+                        </vscode-button>
+                    </div>
+                    <div class="preview-body" id="preview-body"></div>
+                </div>
+            </div>
+
+            <script src="${jsUri}"></script>
+            <script>
+                // Initialize the webview with the package entries
+                initialize(${JSON.stringify(viewData).replace(/</g, '\\u003c')}, ${JSON.stringify(breakdown).replace(/</g, '\\u003c')});
+            </script>
+        </body>
+        </html>`;
+    }
+
+    private getErrorHtml(error: any): string {
+        return `<!DOCTYPE html>
+        <html>
+        <body style="padding: 20px; font-family: var(--vscode-font-family);">
+            <h2 style="color: var(--vscode-errorForeground);">Failed to load package</h2>
+            <p>${this.escapeHtml(String(error))}</p>
+        </body>
+        </html>`;
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+}
@@ -0,0 +1,857 @@
+/**
+ * Package Viewer Webview
+ * Runs in the browser context of the webview
+ */
+
+// Initialize VS Code API
+const vscode = acquireVsCodeApi();
+
+// State variables
+let entries = []; // Package entries: { index, path, size, packed, compressed, severity }
+let breakdown = null; // Packed size per top-level folder and extension: { folders, extensions, packed }
+let selectedEntries = new Set(); // Indices of the entries checked for extraction
+let expandedFolders = new Set(); // Folder paths expanded in the tree view
+let viewMode = 'tree'; // 'tree' or 'flat'
+let sortKey = 'name'; // 'name', 'size', 'packed' or 'compressed'
+let sortAscending = true;
+let filterText = '';
+let filterIsRegex = false;
+let previewIndex = null; // Entry shown in the preview pane
+let previewTimer = null; // Animation preview playback
+
+// Initialize function
+function initialize(data, sizeBreakdown) {
+    entries = data;
+    breakdown = sizeBreakdown;
+    setupEventListeners();
+    renderEntries();
+    renderBreakdown();
+    updateSortIndicators();
+    updateExtractButtonState();
+}
+
+// Event listeners setup
+function setupEventListeners() {
+    const entriesBody = document.getElementById('entries');
+
+    entriesBody.addEventListener('click', (e) => {
+        if (e.target.matches('input[type="checkbox"]')) {
+            return;
+        }
+
+        // Clicking a folder toggles it
+        const folderRow = e.target.closest('tr.folder');
+        if (folderRow) {
+            const folder = folderRow.dataset.folder;
+            if (expandedFolders.has(folder)) {
+                expandedFolders.delete(folder);
+            } else {
+                expandedFolders.add(folder);
+            }
+            renderEntries();
+            return;
+        }
+
+        // Clicking an entry shows its preview
+        const row = e.target.closest('tr[data-index]');
+        if (row) {
+            showPreview(parseInt(row.dataset.index));
+        }
+    });
+
+    // Double-clicking an entry opens it in a read-only editor
+    entriesBody.addEventListener('dblclick', (e) => {
+        const row = e.target.closest('tr[data-index]');
+        if (!row || e.target.matches('input[type="checkbox"]')) {
+            return;
+        }
+        vscode.postMessage({
+            type: 'openEntry',
+            index: parseInt(row.dataset.index)
+        });
+    });
+
+    // Preview pane
+    document.getElementById('preview-open-btn').addEventListener('click', () => {
+        if (previewIndex !== null) {
+            vscode.postMessage({ type: 'openEntry', index: previewIndex });
+        }
+    });
+
+    document.getElementById('preview-close-btn').addEventListener('click', () => {
+        closePreview();
+    });
+
+    entriesBody.addEventListener('change', (e) => {
+        if (e.target.classList.contains('entry-checkbox')) {
+            setSelected([parseInt(e.target.dataset.index)], e.target.checked);
+        } else if (e.target.classList.contains('folder-checkbox')) {
+            // Checking a folder selects every (visible) entry below it
+            const prefix = e.target.dataset.folder + '/';
+            const indices = getVisibleEntries()
+                .filter(entry => entry.path.startsWith(prefix))
+                .map(entry => entry.index);
+            setSelected(indices, e.target.checked);
+        }
+        renderEntries();
+    });
+
+    document.getElementById('select-all').addEventListener('change', (e) => {
+        setSelected(getVisibleEntries().map(entry => entry.index), e.target.checked);
+        renderEntries();
+    });
+
+    document.getElementById('extract-selected-btn').addEventListener('click', () => {
+        if (selectedEntries.size === 0) {
+            return;
+        }
+        vscode.postMessage({
+            type: 'extract',
+            indices: Array.from(selectedEntries)
+        });
+    });
+
+    document.getElementById('extract-all-btn').addEventListener('click', () => {
+        vscode.postMessage({ type: 'extract', indices: [] });
+    });
+
+    // Filter, sorting and view controls
+    document.getElementById('filter').addEventListener('input', (e) => {
+        filterText = e.target.value;
+        renderEntries();
+    });
+
+    document.getElementById('regex-btn').addEventListener('click', () => {
+        filterIsRegex = !filterIsRegex;
+        document.getElementById('regex-btn').classList.toggle('active', filterIsRegex);
+        document.getElementById('filter').placeholder = filterIsRegex
+            ? 'Filter (regular expression)'
+            : 'Filter (glob, e.g. **/*.png)';
+        renderEntries();
+    });
+
+    document.getElementById('view-mode-btn').addEventListener('click', () => {
+        viewMode = viewMode === 'tree' ? 'flat' : 'tree';
+        document.getElementById('view-mode-icon').className =
+            `codicon ${viewMode === 'tree' ? 'codicon-list-flat' : 'codicon-list-tree'}`;
+        renderEntries();
+    });
+
+    document.getElementById('expand-all-btn').addEventListener('click', () => {
+        for (const entry of entries) {
+            getParentFolders(entry.path).forEach(folder => expandedFolders.add(folder));
+        }
+        renderEntries();
+    });
+
+    document.getElementById('collapse-all-btn').addEventListener('click', () => {
+        expandedFolders.clear();
+        renderEntries();
+    });
+
+    document.getElementById('breakdown-btn').addEventListener('click', () => {
+        document.getElementById('breakdown').classList.toggle('visible');
+    });
+
+    document.querySelectorAll('th.sortable').forEach(header => {
+        header.addEventListener('click', () => {
+            const key = header.dataset.sort;
+            if (sortKey === key) {
+                sortAscending = !sortAscending;
+            } else {
+                sortKey = key;
+                // Sizes are most useful largest-first
+                sortAscending = key === 'name';
+            }
+            updateSortIndicators();
+            renderEntries();
+        });
+    });
+
+    // Clicking a diagnostic reveals the entry it concerns
+    document.querySelectorAll('.diagnostic[data-index]').forEach(diagnostic => {
+        diagnostic.addEventListener('click', () => {
+            const entry = entries[parseInt(diagnostic.dataset.index)];
+            if (!entry) {
+                return;
+            }
+            getParentFolders(entry.path).forEach(folder => expandedFolders.add(folder));
+            renderEntries();
+            const row = document.querySelector(`#entries tr[data-index="${entry.index}"]`);
+            if (!row) {
+                return;
+            }
+            document.querySelectorAll('#entries tr.highlight').forEach(r => r.classList.remove('highlight'));
+            row.classList.add('highlight');
+            row.scrollIntoView({ block: 'center' });
+        });
+    });
+
+    // Drift banner
+    document.getElementById('drift-details-btn').addEventListener('click', () => {
+        document.getElementById('drift-details').classList.toggle('visible');
+    });
+
+    document.getElementById('drift-recheck-btn').addEventListener('click', () => {
+        vscode.postMessage({ type: 'recheckDrift' });
+    });
+
+    document.getElementById('drift-rebuild-btn').addEventListener('click', () => {
+        vscode.postMessage({ type: 'rebuild' });
+    });
+
+    document.getElementById('drift-details').addEventListener('click', (e) => {
+        const link = e.target.closest('.drift-file');
+        if (!link) {
+            return;
+        }
+        vscode.postMessage({
+            type: link.dataset.source === 'package' ? 'openPackagedEntry' : 'openSource',
+            path: link.dataset.path
+        });
+    });
+
+    // Version banner
+    document.getElementById('version-engine-btn').addEventListener('click', () => {
+        vscode.postMessage({ type: 'showEngineInfo' });
+    });
+
+    document.getElementById('version-rebuild-btn').addEventListener('click', () => {
+        vscode.postMessage({ type: 'rebuild' });
+    });
+
+    // Handle messages from extension
+    window.addEventListener('message', event => {
+        const message = event.data;
+        switch (message.type) {
+            case 'drift':
+                renderDriftBanner(message.drift, message.summary);
+                break;
+            case 'version':
+                renderVersionBanner(message.mismatch, message.canRebuild);
+                break;
+            case 'preview':
+                // Ignore answers for entries that are no longer selected
+                if (message.index === previewIndex) {
+                    renderPreview(message.preview);
+                }
+                break;
+        }
+    });
+}
+
+function setSelected(indices, selected) {
+    for (const index of indices) {
+        if (selected) {
+            selectedEntries.add(index);
+        } else {
+            selectedEntries.delete(index);
+        }
+    }
+    updateExtractButtonState();
+}
+
+// "a/b/c.png" -> ["a", "a/b"]
+function getParentFolders(entryPath) {
+    const parts = entryPath.split('/');
+    const folders = [];
+    for (let i = 1; i < parts.length; i++) {
+        folders.push(parts.slice(0, i).join('/'));
+    }
+    return folders;
+}
+
+// Filter matching
+// Globs match the full path or the file name; plain text matches any part of the path
+function createFilterMatcher() {
+    const text = filterText.trim();
+    if (!text) {
+        return null;
+    }
+
+    if (filterIsRegex) {
+        try {
+            const regex = new RegExp(text, 'i');
+            return (entryPath) => regex.test(entryPath);
+        } catch (e) {
+            return 'invalid';
+        }
+    }
+
+    if (!/[*?]/.test(text)) {
+        const lower = text.toLowerCase();
+        return (entryPath) => entryPath.toLowerCase().includes(lower);
+    }
+
+    const regex = globToRegExp(text);
+    return (entryPath) => regex.test(entryPath) || regex.test(entryPath.substring(entryPath.lastIndexOf('/') + 1));
+}
+
+function globToRegExp(glob) {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                // "**/" matches any number of folders, including none
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (c === '?') {
+            source += '[^/]';
+        } else {
+            source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, 'i');
+}
+
+function getVisibleEntries() {
+    const matcher = createFilterMatcher();
+    if (matcher === 'invalid') {
+        return [];
+    }
+    return matcher ? entries.filter(entry => matcher(entry.path)) : entries;
+}
+
+// Tree building
+function buildTree(list) {
+    const root = { name: '', path: '', folders: new Map(), files: [], size: 0, packed: 0, count: 0 };
+    for (const entry of list) {
+        const parts = entry.path.split('/');
+        let node = root;
+        node.size += entry.size;
+        node.packed += entry.packed;
+        node.count++;
+        for (let i = 0; i < parts.length - 1; i++) {
+            let child = node.folders.get(parts[i]);
+            if (!child) {
+                child = {
+                    name: parts[i],
+                    path: parts.slice(0, i + 1).join('/'),
+                    folders: new Map(),
+                    files: [],
+                    size: 0,
+                    packed: 0,
+                    count: 0
+                };
+                node.folders.set(parts[i], child);
+            }
+            child.size += entry.size;
+            child.packed += entry.packed;
+            child.count++;
+            node = child;
+        }
+        node.files.push(entry);
+    }
+    return root;
+}
+
+function compareItems(a, b, nameOf) {
+    let result;
+    switch (sortKey) {
+        case 'size':
+            result = a.size - b.size;
+            break;
+        case 'packed':
+            result = a.packed - b.packed;
+            break;
+        case 'compressed':
+            result = (a.compressed ? 1 : 0) - (b.compressed ? 1 : 0);
+            break;
+        default:
+            result = 0;
+    }
+    if (result === 0) {
+        result = nameOf(a).localeCompare(nameOf(b));
+    }
+    return sortAscending ? result : -result;
+}
+
+// Rendering
+function renderEntries() {
+    const body = document.getElementById('entries');
+    const matcher = createFilterMatcher();
+    const visible = getVisibleEntries();
+    const rows = [];
+
+    if (viewMode === 'flat') {
+        const sorted = [...visible].sort((a, b) => compareItems(a, b, item => item.path));
+        for (const entry of sorted) {
+            rows.push(renderFileRow(entry, entry.path, 0));
+        }
+    } else {
+        // While filtering, every folder with a match is shown expanded
+        const expandAll = matcher !== null;
+        const renderFolder = (node, depth) => {
+            const folders = [...node.folders.values()].sort((a, b) => compareItems(a, b, item => item.name));
+            for (const folder of folders) {
+                const expanded = expandAll || expandedFolders.has(folder.path);
+                rows.push(renderFolderRow(folder, visible, depth, expanded));
+                if (expanded) {
+                    renderFolder(folder, depth + 1);
+                }
+            }
+            const files = [...node.files].sort((a, b) => compareItems(a, b, item => item.path));
+            for (const entry of files) {
+                rows.push(renderFileRow(entry, entry.path.substring(entry.path.lastIndexOf('/') + 1), depth));
+            }
+        };
+        renderFolder(buildTree(visible), 0);
+    }
+
+    if (rows.length === 0) {
+        rows.push(`<tr class="empty"><td colspan="5">${matcher === 'invalid' ? 'Invalid regular expression' : 'No matching entries'}</td></tr>`);
+    }
+    body.innerHTML = rows.join('');
+
+    const status = document.getElementById('filter-status');
+    status.textContent = matcher ? `${visible.length} of ${entries.length} files` : '';
+
+    const selectAll = document.getElementById('select-all');
+    selectAll.checked = visible.length > 0 && visible.every(entry => selectedEntries.has(entry.index));
+}
+
+function renderFolderRow(folder, visible, depth, expanded) {
+    const prefix = folder.path + '/';
+    const children = visible.filter(entry => entry.path.startsWith(prefix));
+    const allSelected = children.length > 0 && children.every(entry => selectedEntries.has(entry.index));
+
+    return `
+        <tr class="folder" data-folder="${escapeHtml(folder.path)}">
+            <td class="select"><input type="checkbox" class="folder-checkbox" data-folder="${escapeHtml(folder.path)}" ${allSelected ? 'checked' : ''} /></td>
+            <td class="path" style="padding-left: ${8 + depth * 16}px">
+                <span class="codicon codicon-chevron-${expanded ? 'down' : 'right'}"></span>
+                <span class="codicon codicon-folder${expanded ? '-opened' : ''}"></span>
+                ${escapeHtml(folder.name)}
+                <span class="folder-count">${folder.count} file${folder.count === 1 ? '' : 's'}</span>
+            </td>
+            <td class="size">${formatSize(folder.size)}</td>
+            <td class="size">${formatSize(folder.packed)}</td>
+            <td class="compressed"></td>
+        </tr>
+    `;
+}
+
+function renderFileRow(entry, label, depth) {
+    const selected = selectedEntries.has(entry.index);
+    const marker = entry.severity ? `<span class="codicon codicon-${entry.severity} ${entry.severity}"></span> ` : '';
+    const classes = [
+        entry.severity ? `has-${entry.severity}` : '',
+        selected ? 'selected' : '',
+        entry.index === previewIndex ? 'active' : ''
+    ].filter(c => c).join(' ');
+    // Files line up with the folder names next to them, past the chevron
+    const indent = viewMode === 'tree' ? 8 + depth * 16 + 20 : 8;
+
+    return `
+        <tr data-index="${entry.index}"${classes ? ` class="${classes}"` : ''}>
+            <td class="select"><input type="checkbox" class="entry-checkbox" data-index="${entry.index}" ${selected ? 'checked' : ''} /></td>
+            <td class="path file" style="padding-left: ${indent}px" title="${escapeHtml(entry.path)} (double-click to open)">${marker}${escapeHtml(label)}</td>
+            <td class="size">${formatSize(entry.size)}</td>
+            <td class="size">${formatSize(entry.packed)}</td>
+            <td class="compressed">${entry.compressed ? '✓' : ''}</td>
+        </tr>
+    `;
+}
+
+// Packed size breakdown per top-level folder and per file extension
+function renderBreakdown() {
+    const renderBars = (groups) => groups.map(group => {
+        const percent = breakdown.packed > 0 ? (group.packed / breakdown.packed) * 100 : 0;
+        return `
+            <div class="bar-row" title="${escapeHtml(group.name)}: ${group.files} files, ${formatSize(group.size)} uncompressed">
+                <span class="bar-label">${escapeHtml(group.name)}</span>
+                <span class="bar-track"><span class="bar" style="width: ${percent.toFixed(2)}%"></span></span>
+                <span class="bar-value">${formatSize(group.packed)} (${percent.toFixed(1)}%)</span>
+            </div>
+        `;
+    }).join('');
+
+    document.getElementById('breakdown-folders').innerHTML = renderBars(breakdown.folders);
+    document.getElementById('breakdown-extensions').innerHTML = renderBars(breakdown.extensions);
+}
+
+function updateSortIndicators() {
+    document.querySelectorAll('th.sortable').forEach(header => {
+        const indicator = header.querySelector('.sort-indicator');
+        indicator.className = header.dataset.sort === sortKey
+            ? `sort-indicator codicon codicon-arrow-${sortAscending ? 'up' : 'down'}`
+            : 'sort-indicator';
+    });
+}
+
+// Preview pane
+function showPreview(index) {
+    const entry = entries[index];
+    if (!entry) {
+        return;
+    }
+    previewIndex = index;
+    stopPreviewAnimation();
+
+    document.querySelectorAll('#entries tr.active').forEach(r => r.classList.remove('active'));
+    const row = document.querySelector(`#entries tr[data-index="${index}"]`);
+    if (row) {
+        row.classList.add('active');
+    }
+
+    document.getElementById('preview-title').textContent = entry.path;
+    document.getElementById('preview-body').innerHTML = '<div class="preview-placeholder">Loading...</div>';
+    document.getElementById('preview-pane').classList.add('visible');
+    vscode.postMessage({ type: 'preview', index });
+}
+
+function closePreview() {
+    previewIndex = null;
+    stopPreviewAnimation();
+    document.querySelectorAll('#entries tr.active').forEach(r => r.classList.remove('active'));
+    document.getElementById('preview-pane').classList.remove('visible');
+    document.getElementById('preview-body').innerHTML = '';
+}
+
+function renderPreview(preview) {
+    const body = document.getElementById('preview-body');
+    const message = preview.message
+        ? `<div class="preview-placeholder">${escapeHtml(preview.message)}</div>`
+        : '';
+
+    switch (preview.kind) {
+        case 'image':
+            body.innerHTML = `
+                <div class="preview-image checkerboard"><img id="preview-image" src="${preview.src}" /></div>
+                <div class="preview-info" id="preview-info">${formatSize(preview.size)}</div>
+            `;
+            document.getElementById('preview-image').addEventListener('load', (e) => {
+                const img = e.target;
+                document.getElementById('preview-info').textContent =
+                    `${img.naturalWidth}×${img.naturalHeight}px, ${formatSize(preview.size)}`;
+            });
+            break;
+        case 'audio':
+            body.innerHTML = `
+                <audio id="preview-audio" controls src="${preview.src}"></audio>
+                <div class="preview-info" id="preview-info">${formatSize(preview.size)}</div>
+            `;
+            document.getElementById('preview-audio').addEventListener('loadedmetadata', (e) => {
+                document.getElementById('preview-info').textContent =
+                    `${formatDuration(e.target.duration)}, ${formatSize(preview.size)}`;
+            });
+            break;
+        case 'shader':
+            body.innerHTML = `
+                <pre class="preview-text">${escapeHtml(preview.text)}</pre>
+                ${preview.truncated ? '<div class="preview-info">Truncated, open the entry to see all of it</div>' : ''}
+            `;
+            break;
+        case 'sprite':
+        case 'animation':
+        case 'tiles':
+            body.innerHTML = message + renderAssetSummary(preview.kind, preview.data);
+            if (preview.src) {
+                const index = previewIndex;
+                loadPreviewImage(preview.src, (image) => {
+                    // The pane may have moved on to another entry while the image decoded
+                    if (index !== previewIndex) {
+                        return;
+                    }
+                    if (preview.kind === 'sprite') {
+                        drawSpritePreview(image, preview.data);
+                    } else if (preview.kind === 'animation') {
+                        setupAnimationPreview(image, preview.data);
+                    } else {
+                        drawTilesPreview(image, preview.data);
+                    }
+                });
+            }
+            break;
+        default:
+            body.innerHTML = message;
+    }
+}
+
+function loadPreviewImage(src, onLoad) {
+    const image = new Image();
+    image.onload = () => onLoad(image);
+    image.src = src;
+}
+
+// The asset comes straight from the package: numbers are coerced and text escaped, so a
+// crafted file can't inject markup into the webview
+function renderAssetSummary(kind, data) {
+    if (kind === 'sprite') {
+        const sprites = Object.entries(data.sprites || {});
+        return `
+            <div class="preview-canvas-container checkerboard"><canvas id="preview-canvas"></canvas></div>
+            <div class="preview-info">${sprites.length} sprite${sprites.length === 1 ? '' : 's'} from ${escapeHtml(data.image || '(none)')}</div>
+            <div class="preview-list">
+                ${sprites.map(([name, rect], index) => `
+                    <div class="preview-list-item">
+                        <span class="sprite-color-dot" style="background: ${getSpriteColor(index, sprites.length)}"></span>
+                        <span class="preview-list-name">${escapeHtml(name)}</span>
+                        <span class="preview-list-detail">${Number(rect.width)}×${Number(rect.height)} at ${Number(rect.x)}, ${Number(rect.y)}</span>
+                    </div>
+                `).join('')}
+            </div>
+        `;
+    }
+
+    if (kind === 'animation') {
+        const animations = Object.entries(data.animations || {});
+        return `
+            <div class="preview-toolbar">
+                <select id="preview-animation-select">
+                    ${animations.map(([name, frames]) => `<option value="${escapeHtml(name)}">${escapeHtml(name)} (${Array.isArray(frames) ? frames.length : 0} frames)</option>`).join('')}
+                </select>
+                <vscode-button appearance="icon" aria-label="Play/Pause" id="preview-play-btn">
+                    <span class="codicon codicon-debug-pause" id="preview-play-icon"></span>
+                </vscode-button>
+            </div>
+            <div class="preview-canvas-container"><canvas id="preview-canvas"></canvas></div>
+            <div class="preview-info">${Number(data.columns)}×${Number(data.rows)} grid, ${Number(data.fps)} fps, ${animations.length} animation${animations.length === 1 ? '' : 's'}</div>
+        `;
+    }
+
+    return `
+        <div class="preview-canvas-container checkerboard"><canvas id="preview-canvas"></canvas></div>
+        <div class="preview-info" id="preview-info">${Number(data.columns)}×${Number(data.rows)} tiles from ${escapeHtml(data.image || '(none)')}</div>
+    `;
+}
+
+// Same colors as the sprite editor
+function getSpriteColor(index, total) {
+    const hue = (index * 360) / Math.max(total, 1);
+    return `hsl(${hue}, 70%, 60%)`;
+}
+
+// Largest integer zoom that fits the pane, or a fractional one for big sheets
+function getPreviewScale(width, height) {
+    const maxSize = document.getElementById('preview-body').clientWidth || 320;
+    const fit = maxSize / Math.max(width, height, 1);
+    return fit >= 1 ? Math.floor(fit) : fit;
+}
+
+function drawSpritePreview(image, data) {
+    const canvas = document.getElementById('preview-canvas');
+    const scale = getPreviewScale(image.width, image.height);
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+
+    const ctx = canvas.getContext('2d');
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const sprites = Object.entries(data.sprites || {});
+    sprites.forEach(([name, rect], index) => {
+        ctx.strokeStyle = getSpriteColor(index, sprites.length);
+        ctx.lineWidth = 2;
+        ctx.strokeRect(rect.x * scale, rect.y * scale, rect.width * scale, rect.height * scale);
+    });
+}
+
+function drawTilesPreview(image, data) {
+    const canvas = document.getElementById('preview-canvas');
+    const scale = getPreviewScale(image.width, image.height);
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+
+    const ctx = canvas.getContext('2d');
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const cols = data.columns || 1;
+    const rows = data.rows || 1;
+    const imagePadding = (data.imagePadding || 0) * scale;
+    const cellWidth = (canvas.width - 2 * imagePadding) / cols;
+    const cellHeight = (canvas.height - 2 * imagePadding) / rows;
+    const padding = (data.padding || 0) * scale;
+
+    // Effective tile areas, like the tiles editor overlay
+    ctx.strokeStyle = 'rgba(100, 200, 255, 0.6)';
+    ctx.lineWidth = 1;
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            ctx.strokeRect(
+                imagePadding + col * cellWidth + padding + 0.5,
+                imagePadding + row * cellHeight + padding + 0.5,
+                cellWidth - 2 * padding - 1,
+                cellHeight - 2 * padding - 1
+            );
+        }
+    }
+
+    const tileWidth = Math.floor((image.width - 2 * (data.imagePadding || 0)) / cols) - 2 * (data.padding || 0);
+    const tileHeight = Math.floor((image.height - 2 * (data.imagePadding || 0)) / rows) - 2 * (data.padding || 0);
+    document.getElementById('preview-info').textContent =
+        `${cols}×${rows} tiles of ${Math.max(0, tileWidth)}×${Math.max(0, tileHeight)}px from ${data.image}`;
+}
+
+function setupAnimationPreview(image, data) {
+    const select = document.getElementById('preview-animation-select');
+    const playButton = document.getElementById('preview-play-btn');
+    let frame = 0;
+    let playing = true;
+
+    const play = () => {
+        stopPreviewAnimation();
+        if (playing) {
+            previewTimer = setInterval(() => {
+                frame++;
+                drawAnimationFrame(image, data, select.value, frame);
+            }, 1000 / Math.max(1, data.fps || 10));
+        }
+        document.getElementById('preview-play-icon').className =
+            `codicon codicon-${playing ? 'debug-pause' : 'play'}`;
+    };
+
+    select.addEventListener('change', () => {
+        frame = 0;
+        drawAnimationFrame(image, data, select.value, frame);
+    });
+    playButton.addEventListener('click', () => {
+        playing = !playing;
+        play();
+    });
+
+    drawAnimationFrame(image, data, select.value, frame);
+    play();
+}
+
+// Same frame geometry and checkerboard as the animation editor preview
+function drawAnimationFrame(image, data, animation, frame) {
+    const canvas = document.getElementById('preview-canvas');
+    const frames = (data.animations || {})[animation];
+    if (!canvas || !Array.isArray(frames) || frames.length === 0) {
+        return;
+    }
+
+    const cols = data.columns || 1;
+    const rows = data.rows || 1;
+    const imagePadding = data.imagePadding || 0;
+    const cellWidth = (image.width - 2 * imagePadding) / cols;
+    const cellHeight = (image.height - 2 * imagePadding) / rows;
+    const padding = data.padding || 0;
+    const effectiveCellWidth = cellWidth - 2 * padding;
+    const effectiveCellHeight = cellHeight - 2 * padding;
+
+    // Integer scaling for crisp pixels
+    const maxPreviewSize = 200;
+    const scale = Math.max(1, Math.floor(maxPreviewSize / Math.max(effectiveCellWidth, effectiveCellHeight)));
+    canvas.width = effectiveCellWidth * scale;
+    canvas.height = effectiveCellHeight * scale;
+
+    const ctx = canvas.getContext('2d');
+    const checkSize = 16;
+    for (let y = 0; y < canvas.height; y += checkSize) {
+        for (let x = 0; x < canvas.width; x += checkSize) {
+            const isEven = (Math.floor(x / checkSize) + Math.floor(y / checkSize)) % 2 === 0;
+            ctx.fillStyle = isEven ? '#cccccc' : '#999999';
+            ctx.fillRect(x, y, checkSize, checkSize);
+        }
+    }
+
+    const frameIndex = frames[frame % frames.length];
+    const sx = imagePadding + (frameIndex % cols) * cellWidth + padding;
+    const sy = imagePadding + Math.floor(frameIndex / cols) * cellHeight + padding;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(image, sx, sy, effectiveCellWidth, effectiveCellHeight, 0, 0, canvas.width, canvas.height);
+}
+
+function stopPreviewAnimation() {
+    if (previewTimer !== null) {
+        clearInterval(previewTimer);
+        previewTimer = null;
+    }
+}
+
+// Show whether the package was built for a different engine version than the configured one
+function renderVersionBanner(mismatch, canRebuild) {
+    const banner = document.getElementById('version-banner');
+    if (!mismatch) {
+        banner.classList.remove('visible');
+        return;
+    }
+
+    document.getElementById('version-message').textContent =
+        `This package was built for xs ${mismatch.packageVersion}, but the configured engine is xs ${mismatch.engineVersion}. ` +
+        'It may fail to run until it is rebuilt.';
+    document.getElementById('version-rebuild-btn').style.display = canRebuild ? '' : 'none';
+    banner.classList.add('visible');
+}
+
+// Show which files differ between the package and the project, if any
+function renderDriftBanner(drift, summary) {
+    const banner = document.getElementById('drift-banner');
+    if (!summary) {
+        banner.classList.remove('visible');
+        return;
+    }
+
+    document.getElementById('drift-summary').textContent = summary;
+
+    const details = document.getElementById('drift-details');
+    details.innerHTML = '';
+    const addSection = (title, files, source) => {
+        if (files.length === 0) {
+            return;
+        }
+        const heading = document.createElement('div');
+        heading.className = 'drift-section';
+        heading.textContent = `${title} (${files.length})`;
+        details.appendChild(heading);
+        for (const file of files) {
+            const link = document.createElement('div');
+            link.className = 'drift-file';
+            link.dataset.path = file;
+            link.dataset.source = source;
+            link.textContent = file;
+            details.appendChild(link);
+        }
+    };
+    addSection('Changed since packaging', drift.modified, 'project');
+    addSection('In the project but not packaged', drift.missingFromPackage, 'project');
+    addSection('Packaged but no longer on disk', drift.missingOnDisk, 'package');
+
+    banner.classList.add('visible');
+}
+
+function updateExtractButtonState() {
+    const button = document.getElementById('extract-selected-btn');
+    if (selectedEntries.size > 0) {
+        button.removeAttribute('disabled');
+    } else {
+        button.setAttribute('disabled', '');
+    }
+}
+
+// Utilities
+function formatSize(bytes) {
+    if (bytes >= 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function formatDuration(seconds) {
+    if (!isFinite(seconds)) {
+        return 'unknown length';
+    }
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function escapeHtml(text) {
+    return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
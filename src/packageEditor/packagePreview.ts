@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PackageEntry, PackageInfo, PackageParser, normalizeEntryPath } from '../package/packageParser';
+import { ASSET_EXTENSIONS } from '../assets/assetTypes';
+
+export type PreviewKind = 'image' | 'audio' | 'sprite' | 'animation' | 'tiles' | 'shader' | 'none';
+
+export interface EntryPreview {
+    kind: PreviewKind;
+    path: string;
+    size: number;
+    // data: URI of an image or audio entry, or of the sheet an asset refers to
+    src?: string;
+    // Parsed .xssprite / .xsanim / .xstiles data
+    data?: unknown;
+    // Shader source
+    text?: string;
+    truncated?: boolean;
+    // Why there is nothing (or only part of something) to show
+    message?: string;
+}
+
+const IMAGE_TYPES: { [ext: string]: string } = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.bmp': 'image/bmp',
+    '.gif': 'image/gif'
+};
+
+const AUDIO_TYPES: { [ext: string]: string } = {
+    '.wav': 'audio/wav',
+    '.ogg': 'audio/ogg',
+    '.mp3': 'audio/mpeg',
+    '.flac': 'audio/flac'
+};
+
+// Media is sent to the webview inline, so very large entries are not previewed
+const MAX_PREVIEW_SIZE = 32 * 1024 * 1024;
+const MAX_SHADER_PREVIEW = 64 * 1024;
+
+export function getPreviewKind(filePath: string): PreviewKind {
+    const ext = path.extname(filePath).toLowerCase();
+    if (IMAGE_TYPES[ext]) {
+        return 'image';
+    }
+    if (AUDIO_TYPES[ext]) {
+        return 'audio';
+    }
+    if (ASSET_EXTENSIONS[ext]) {
+        return ASSET_EXTENSIONS[ext];
+    }
+    if (ext === '.frag' || ext === '.vert' || ext === '.glsl') {
+        return 'shader';
+    }
+    return 'none';
+}
+
+// Read an entry (and, for sprite/animation/tiles data, the sheet it uses) straight from the package
+export async function loadEntryPreview(packageUri: vscode.Uri, packageInfo: PackageInfo, entry: PackageEntry): Promise<EntryPreview> {
+    const relativePath = normalizeEntryPath(entry.relativePath);
+    const size = Number(entry.uncompressedSize);
+    const kind = getPreviewKind(relativePath);
+    const preview: EntryPreview = { kind, path: relativePath, size };
+
+    if (kind === 'none') {
+        preview.message = 'No preview available for this file type';
+        return preview;
+    }
+    if (size > MAX_PREVIEW_SIZE) {
+        return { ...preview, kind: 'none', message: 'File is too large to preview' };
+    }
+
+    const data = await PackageParser.readEntry(packageUri, packageInfo, entry);
+    const ext = path.extname(relativePath).toLowerCase();
+
+    switch (kind) {
+        case 'image':
+            preview.src = toDataUri(data, IMAGE_TYPES[ext]);
+            break;
+        case 'audio':
+            preview.src = toDataUri(data, AUDIO_TYPES[ext]);
+            break;
+        case 'shader': {
+            const text = Buffer.from(data).toString('utf8');
+            preview.text = text.substring(0, MAX_SHADER_PREVIEW);
+            preview.truncated = text.length > MAX_SHADER_PREVIEW;
+            break;
+        }
+        default: {
+            let asset: { image?: string };
+            try {
+                asset = JSON.parse(Buffer.from(data).toString('utf8'));
+            } catch (error) {
+                return { ...preview, kind: 'none', message: `Invalid JSON: ${error}` };
+            }
+            preview.data = asset;
+
+            const imageEntry = asset.image ? findImageEntry(packageInfo, asset.image, relativePath) : undefined;
+            if (!asset.image) {
+                preview.message = 'No image set';
+            } else if (!imageEntry) {
+                preview.message = `${asset.image} is not in the package`;
+            } else if (Number(imageEntry.uncompressedSize) > MAX_PREVIEW_SIZE) {
+                preview.message = `${asset.image} is too large to preview`;
+            } else {
+                const image = await PackageParser.readEntry(packageUri, packageInfo, imageEntry);
+                const imageType = IMAGE_TYPES[path.extname(imageEntry.relativePath).toLowerCase()] || 'image/png';
+                preview.src = toDataUri(image, imageType);
+            }
+            break;
+        }
+    }
+    return preview;
+}
+
+// Asset files refer to their sheet as "[game]/images/sheet.png"; fall back to a path
+// relative to the asset itself
+function findImageEntry(packageInfo: PackageInfo, imagePath: string, assetPath: string): PackageEntry | undefined {
+    const cleanPath = normalizeEntryPath(imagePath.replace(/^\[game\][\\/]/, ''));
+    const candidates = [cleanPath, path.posix.join(path.posix.dirname(assetPath), cleanPath)];
+    for (const candidate of candidates) {
+        const entry = packageInfo.entries.find(e => normalizeEntryPath(e.relativePath) === candidate);
+        if (entry) {
+            return entry;
+        }
+    }
+    return undefined;
+}
+
+function toDataUri(data: Uint8Array, mimeType: string): string {
+    return `data:${mimeType};base64,${Buffer.from(data).toString('base64')}`;
+}
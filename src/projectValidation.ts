@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EXCLUDED_FOLDERS, parseProjectJson, readProjectJson, XsProjects } from './projects';
+
+// Checks of project.json beyond its JSON schema (schemas/project.schema.json): whether the
+// files it names exist, and why the extension did not activate for a workspace
+
+export interface XsProjectProblem {
+    message: string;
+    // Offsets into the project.json text
+    start: number;
+    end: number;
+    severity: 'error' | 'warning';
+}
+
+// Problems with the paths in a project.json; exists() gets paths relative to the project folder.
+// Syntax and type errors are left to the JSON language features and the schema
+export async function validateProjectJson(text: string, exists: (relativePath: string) => Promise<boolean>): Promise<XsProjectProblem[]> {
+    const { main, problem } = parseProjectJson(text);
+    if (!main) {
+        // Only a missing "Main" is reported here: syntax and type errors are the schema's, and
+        // the project.json of another tool has no problem
+        if (problem && /^\s*\{/.test(text) && !/"Main"\s*:/.test(text) && !problem.startsWith('is not valid JSON')) {
+            const brace = text.indexOf('{');
+            return [{ message: 'Missing "Main": the Wren script the engine starts, e.g. "game.wren"', start: brace, end: brace + 1, severity: 'error' }];
+        }
+        return [];
+    }
+
+    const problems: XsProjectProblem[] = [];
+    const mainPath = main.replace(/^\[game\][\\/]/, '');
+    if (!await exists(mainPath)) {
+        const match = /"Main"\s*:\s*("(?:[^"\\]|\\.)*")/.exec(text);
+        const start = match ? match.index + match[0].length - match[1].length : 0;
+        problems.push({
+            message: `Main script "${main}" does not exist`,
+            start,
+            end: match ? start + match[1].length : 0,
+            severity: 'error'
+        });
+    }
+
+    // Budgets for folders the project does not have never apply
+    const folders = JSON.parse(text).PackageBudget?.folders;
+    const foldersOffset = text.indexOf('"folders"');
+    if (folders && typeof folders === 'object' && foldersOffset >= 0) {
+        for (const folder of Object.keys(folders)) {
+            const folderPath = folder.replace(/^[\\/]+|[\\/]+$/g, '');
+            if (folderPath && !await exists(folderPath)) {
+                const key = JSON.stringify(folder);
+                const start = text.indexOf(key, foldersOffset);
+                problems.push({
+                    message: `Folder "${folder}" does not exist in the project`,
+                    start: Math.max(0, start),
+                    end: start >= 0 ? start + key.length : 0,
+                    severity: 'warning'
+                });
+            }
+        }
+    }
+    return problems;
+}
+
+// Reports the problems of the open project.json files of the workspace's xs projects in the
+// Problems panel; the project.json files of other tools are left alone
+export class XsProjectDiagnostics implements vscode.Disposable {
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('xs-project');
+    private readonly disposables: vscode.Disposable[] = [];
+    // Creating or deleting files in a project can fix or break the paths in its project.json
+    private watchers: vscode.FileSystemWatcher[] = [];
+    private watchedFolders = '';
+
+    constructor(private readonly projects: XsProjects) {
+        this.disposables.push(
+            this.diagnostics,
+            projects.onDidChange(() => this.watchProjects()),
+            vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+            vscode.workspace.onDidChangeTextDocument(e => this.validate(e.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri))
+        );
+        this.watchProjects();
+    }
+
+    async validate(document: vscode.TextDocument) {
+        if (document.uri.scheme !== 'file' || path.basename(document.uri.fsPath) !== 'project.json') {
+            return;
+        }
+        const folder = path.dirname(document.uri.fsPath);
+        if (!this.projects.all.some(project => project.folder.fsPath === folder)) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+        const projectFolder = vscode.Uri.joinPath(document.uri, '..');
+        const problems = await validateProjectJson(document.getText(), async relativePath => {
+            try {
+                const uri = path.isAbsolute(relativePath) ? vscode.Uri.file(relativePath) : vscode.Uri.joinPath(projectFolder, relativePath);
+                await vscode.workspace.fs.stat(uri);
+                return true;
+            } catch {
+                return false;
+            }
+        });
+        this.diagnostics.set(document.uri, problems.map(problem => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end)),
+                problem.message,
+                problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'xs';
+            return diagnostic;
+        }));
+    }
+
+    private validateOpenDocuments() {
+        vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    }
+
+    // onDidChange also fires when only the active project changes; the watchers stay then
+    private watchProjects() {
+        const folders = this.projects.all.map(project => project.folder.fsPath).join('\n');
+        if (folders === this.watchedFolders && this.watchers.length > 0) {
+            return;
+        }
+        this.watchedFolders = folders;
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = this.projects.all.map(project => {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(project.folder, '**/*'), false, true, false);
+            watcher.onDidCreate(() => this.validateOpenDocuments());
+            watcher.onDidDelete(() => this.validateOpenDocuments());
+            return watcher;
+        });
+        this.validateOpenDocuments();
+    }
+
+    dispose() {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+// The extension only activates for valid xs projects. When the workspace's project.json files
+// are all invalid, say why, and offer to reload the window once one is fixed
+export async function reportInvalidProjects(context: vscode.ExtensionContext) {
+    const invalid: { uri: vscode.Uri; problem: string }[] = [];
+    for (const projectFile of await vscode.workspace.findFiles('**/project.json', EXCLUDED_FOLDERS)) {
+        const problem = (await readProjectJson(projectFile)).problem;
+        if (problem) {
+            invalid.push({ uri: projectFile, problem });
+        }
+    }
+    if (invalid.length === 0) {
+        return;
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/project.json');
+    const checkFixed = async (uri: vscode.Uri) => {
+        if ((await readProjectJson(uri)).main) {
+            watcher.dispose();
+            const selection = await vscode.window.showInformationMessage(
+                `${vscode.workspace.asRelativePath(uri)} is now a valid xs project. Reload the window to activate the xs extension.`,
+                'Reload Window'
+            );
+            if (selection === 'Reload Window') {
+                vscode.commands.executeCommand('workbench.action.reloadWindow');
+            }
+        }
+    };
+    context.subscriptions.push(watcher, watcher.onDidChange(checkFixed), watcher.onDidCreate(checkFixed));
+
+    const [first] = invalid;
+    const others = invalid.length > 1 ? ` (and ${invalid.length - 1} more project.json files)` : '';
+    const selection = await vscode.window.showWarningMessage(
+        `The xs extension is inactive: ${vscode.workspace.asRelativePath(first.uri)} ${first.problem}${others}.`,
+        'Open project.json'
+    );
+    if (selection === 'Open project.json') {
+        await vscode.window.showTextDocument(first.uri);
+    }
+}
@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// An xs game in the workspace: a folder (workspace folder or any subfolder) whose project.json has "Main"
+export interface XsProject {
+    name: string;
+    folder: vscode.Uri;
+    // project.json "Main", the script the engine starts
+    main: string;
+}
+
+// Folders never searched for projects and scripts
+export const EXCLUDED_FOLDERS = '**/{node_modules,.git,.package}/**';
+
+const ACTIVE_PROJECT_KEY = 'xs.activeProject';
+
+// Discovers the xs projects in the workspace and tracks the active one: the project that
+// runs, packaging and the Run status bar item use. The active project follows the file
+// being edited and can be picked from the status bar
+export class XsProjects implements vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    // Fires when the list of projects or the active project changes
+    readonly onDidChange = this.changeEmitter.event;
+
+    private projects: XsProject[] = [];
+    private activeProject: XsProject | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    private constructor(private readonly state: vscode.Memento) {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/project.json');
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.refresh()),
+            watcher.onDidChange(() => this.refresh()),
+            watcher.onDidDelete(() => this.refresh()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh()),
+            vscode.window.onDidChangeActiveTextEditor(editor => this.followEditor(editor?.document.uri)),
+            vscode.window.tabGroups.onDidChangeTabs(() => this.followActiveTab())
+        );
+    }
+
+    static async create(context: vscode.ExtensionContext): Promise<XsProjects> {
+        const projects = new XsProjects(context.workspaceState);
+        await projects.refresh();
+        return projects;
+    }
+
+    get all(): readonly XsProject[] {
+        return this.projects;
+    }
+
+    get active(): XsProject | undefined {
+        return this.activeProject;
+    }
+
+    // The innermost project containing a file
+    getProjectForUri(uri: vscode.Uri): XsProject | undefined {
+        let owner: XsProject | undefined;
+        for (const project of this.projects) {
+            const relativePath = path.relative(project.folder.fsPath, uri.fsPath);
+            const contains = !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+            if (contains && (!owner || project.folder.fsPath.length > owner.folder.fsPath.length)) {
+                owner = project;
+            }
+        }
+        return owner;
+    }
+
+    setActive(project: XsProject) {
+        if (this.activeProject?.folder.toString() !== project.folder.toString()) {
+            this.activeProject = project;
+            this.state.update(ACTIVE_PROJECT_KEY, project.folder.toString());
+            this.changeEmitter.fire();
+        }
+    }
+
+    async pick(): Promise<XsProject | undefined> {
+        const items = this.projects.map(project => ({
+            label: project.name,
+            description: vscode.workspace.asRelativePath(project.folder, true),
+            picked: project === this.activeProject,
+            project
+        }));
+        const selection = await vscode.window.showQuickPick(items, { placeHolder: 'Select the active xs project' });
+        if (selection) {
+            this.setActive(selection.project);
+        }
+        return selection?.project;
+    }
+
+    async refresh() {
+        const projectFiles = await vscode.workspace.findFiles('**/project.json', EXCLUDED_FOLDERS);
+        const projects: XsProject[] = [];
+        for (const projectFile of projectFiles) {
+            const { main } = await readProjectJson(projectFile);
+            if (main) {
+                const folder = vscode.Uri.file(path.dirname(projectFile.fsPath));
+                projects.push({ name: path.basename(folder.fsPath), folder, main });
+            }
+        }
+        projects.sort((a, b) => a.folder.fsPath.localeCompare(b.folder.fsPath));
+        this.projects = projects;
+
+        // Keep the active project if it still exists; otherwise restore the last one picked,
+        // or use the project of the current file, or the first one
+        const find = (folder: string | undefined) => projects.find(project => project.folder.toString() === folder);
+        const editorUri = vscode.window.activeTextEditor?.document.uri;
+        this.activeProject = find(this.activeProject?.folder.toString())
+            || find(this.state.get<string>(ACTIVE_PROJECT_KEY))
+            || (editorUri && this.getProjectForUri(editorUri))
+            || projects[0];
+        this.changeEmitter.fire();
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.changeEmitter.dispose();
+    }
+
+    private followEditor(uri: vscode.Uri | undefined) {
+        const project = uri && this.getProjectForUri(uri);
+        if (project) {
+            this.setActive(project);
+        }
+    }
+
+    // Custom editors (sprites, animations, packages) are not text editors
+    private followActiveTab() {
+        const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+        if (input instanceof vscode.TabInputCustom || input instanceof vscode.TabInputText) {
+            this.followEditor(input.uri);
+        }
+    }
+}
+
+// "Main" of a project.json, or the reason it is not a valid xs project. Neither is set for
+// the project.json of other tools, which declare their own "$schema"
+export function parseProjectJson(text: string): { main?: string; problem?: string } {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { problem: `is not valid JSON (${error instanceof Error ? error.message : error})` };
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { problem: 'is not a JSON object' };
+    }
+    if (data.Main === undefined) {
+        return typeof data.$schema === 'string' ? {} : { problem: 'has no "Main" script' };
+    }
+    if (typeof data.Main !== 'string' || !data.Main) {
+        return { problem: '"Main" must be the path of a .wren script' };
+    }
+    return { main: data.Main };
+}
+
+export async function readProjectJson(projectFile: vscode.Uri): Promise<{ main?: string; problem?: string }> {
+    try {
+        return parseProjectJson((await vscode.workspace.fs.readFile(projectFile)).toString());
+    } catch {
+        return { problem: 'cannot be read' };
+    }
+}
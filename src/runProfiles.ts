@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { getWorkingDirectory } from './engine';
+
+// A named set of startup parameters for `xs run`, from the xs.runProfiles setting
+export interface RunProfile {
+    name: string;
+    // Appended after `xs run <project>`
+    args?: string[];
+    env?: { [name: string]: string };
+    // Overrides xs.workingDirectory
+    cwd?: string;
+}
+
+// What a run actually uses once a profile and launch configuration overrides are applied
+export interface RunOptions {
+    args: string[];
+    env: { [name: string]: string };
+    cwd: string;
+}
+
+export function getRunProfiles(config: vscode.WorkspaceConfiguration): RunProfile[] {
+    return config.get<RunProfile[]>('runProfiles', []).filter(profile => profile && typeof profile.name === 'string');
+}
+
+export function findRunProfile(config: vscode.WorkspaceConfiguration, name: string): RunProfile | undefined {
+    return getRunProfiles(config).find(profile => profile.name === name);
+}
+
+// Ask which profile to run with; resolves to null when the pick was cancelled and
+// to undefined for a plain run (also when no profiles are configured)
+export async function pickRunProfile(config: vscode.WorkspaceConfiguration): Promise<RunProfile | undefined | null> {
+    const profiles = getRunProfiles(config);
+    if (profiles.length === 0) {
+        return undefined;
+    }
+
+    const items: (vscode.QuickPickItem & { profile?: RunProfile })[] = [
+        { label: 'Default', description: 'xs run without extra arguments' },
+        ...profiles.map(profile => ({
+            label: profile.name,
+            description: (profile.args || []).join(' '),
+            detail: profile.env ? Object.keys(profile.env).map(name => `${name}=${profile.env![name]}`).join(' ') : undefined,
+            profile
+        }))
+    ];
+    const selection = await vscode.window.showQuickPick(items, { placeHolder: 'Select a run profile' });
+    return selection ? selection.profile : null;
+}
+
+// Combine the profile with explicit overrides (from a launch configuration): args replace the
+// profile's args, env variables are merged, cwd replaces both the profile's and xs.workingDirectory
+export function resolveRunOptions(
+    config: vscode.WorkspaceConfiguration,
+    projectFolder: string,
+    profile?: RunProfile,
+    overrides: Partial<RunOptions> = {}
+): RunOptions {
+    const expand = (value: string) => value.replace(/\$\{workspaceFolder\}/g, projectFolder);
+    const cwd = overrides.cwd || profile?.cwd;
+
+    const env: { [name: string]: string } = {};
+    for (const [name, value] of Object.entries({ ...profile?.env, ...overrides.env })) {
+        env[name] = expand(String(value));
+    }
+    return {
+        args: (overrides.args || profile?.args || []).map(arg => expand(String(arg))),
+        env,
+        cwd: cwd ? expand(cwd) : getWorkingDirectory(config, projectFolder)
+    };
+}
@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { buildPackage } from './package/packageBuilder';
+import { encodePackageVersion } from './package/packageParser';
+import { XsProjects } from './projects';
+import { EngineManager } from './engineManager';
+import { EngineRunner } from './engineRunner';
+import { OutputLineBuffer, ScriptError, WrenErrorParser } from './engineOutput';
+import { getWorkingDirectory, queryEngineVersion, resolveExecutablePath } from './engine';
+
+// Task definition of the "xs" task type, as written in tasks.json:
+//   { "type": "xs", "task": "package" }
+//   { "type": "xs", "task": "run", "packaged": true, "packageFirst": true }
+export interface XsTaskDefinition extends vscode.TaskDefinition {
+    task: 'run' | 'package';
+    // Run the built .package/<project>.xs instead of the project folder
+    packaged?: boolean;
+    // With packaged: build the package first, in the same task, and only run it when that succeeds
+    packageFirst?: boolean;
+    // Defaults to the workspace folder the task belongs to; may use ${workspaceFolder}
+    projectFolder?: string;
+}
+
+// Problem matcher contributed in package.json. Wren errors of run tasks are reported through
+// the EngineRunner diagnostics instead: a matcher can't resolve module names to script files
+const PACKAGE_PROBLEM_MATCHERS = ['$xs-package'];
+
+// Provides the run, package, run package and package and run tasks for every xs project in the workspace
+export class XsTaskProvider implements vscode.TaskProvider {
+    static readonly type = 'xs';
+
+    static register(projects: XsProjects, engines: EngineManager, engineRunner: EngineRunner): vscode.Disposable {
+        return vscode.tasks.registerTaskProvider(XsTaskProvider.type, new XsTaskProvider(projects, engines, engineRunner));
+    }
+
+    constructor(
+        private readonly projects: XsProjects,
+        private readonly engines: EngineManager,
+        private readonly engineRunner: EngineRunner
+    ) {}
+
+    async provideTasks(): Promise<vscode.Task[]> {
+        const tasks: vscode.Task[] = [];
+        for (const project of this.projects.all) {
+            const folder = vscode.workspace.getWorkspaceFolder(project.folder);
+            if (!folder) {
+                continue;
+            }
+            // Projects in subfolders name their folder, relative to the workspace folder
+            const nested = project.folder.fsPath !== folder.uri.fsPath;
+            const projectFolder = nested
+                ? '${workspaceFolder}/' + path.relative(folder.uri.fsPath, project.folder.fsPath).replace(/\\/g, '/')
+                : undefined;
+            const suffix = nested ? ` (${project.name})` : '';
+
+            const definitions: [string, XsTaskDefinition][] = [
+                ['run', { type: XsTaskProvider.type, task: 'run', ...(projectFolder && { projectFolder }) }],
+                ['package', { type: XsTaskProvider.type, task: 'package', ...(projectFolder && { projectFolder }) }],
+                ['run package', { type: XsTaskProvider.type, task: 'run', packaged: true, ...(projectFolder && { projectFolder }) }],
+                ['package and run', { type: XsTaskProvider.type, task: 'run', packaged: true, packageFirst: true, ...(projectFolder && { projectFolder }) }]
+            ];
+            for (const [name, definition] of definitions) {
+                tasks.push(await createTask(this.engines, this.engineRunner, definition, folder, name + suffix));
+            }
+        }
+        return tasks;
+    }
+
+    async resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
+        const definition = task.definition as XsTaskDefinition;
+        if (definition.task !== 'run' && definition.task !== 'package') {
+            return undefined;
+        }
+        const folder = typeof task.scope === 'object' ? task.scope : vscode.workspace.workspaceFolders?.[0];
+        if (!folder) {
+            return undefined;
+        }
+        return createTask(this.engines, this.engineRunner, definition, folder, task.name);
+    }
+}
+
+async function createTask(
+    engines: EngineManager,
+    engineRunner: EngineRunner,
+    definition: XsTaskDefinition,
+    folder: vscode.WorkspaceFolder,
+    name: string
+): Promise<vscode.Task> {
+    const projectFolder = path.resolve(
+        folder.uri.fsPath,
+        (definition.projectFolder || '${workspaceFolder}').replace('${workspaceFolder}', folder.uri.fsPath)
+    );
+    const config = vscode.workspace.getConfiguration('xs', vscode.Uri.file(projectFolder));
+    const folderName = path.basename(projectFolder);
+    const packagePath = path.join(projectFolder, '.package', `${folderName}.xs`);
+    const cwd = getWorkingDirectory(config, projectFolder);
+    const enginePath = await engines.getEnginePath(vscode.Uri.file(projectFolder));
+    const executable = await resolveExecutablePath(enginePath);
+
+    const builtIn = config.get<string>('package.builder', 'engine') === 'builtin';
+    const packageStep: XsTaskStep = builtIn
+        ? terminal => buildWithBuiltInWriter(terminal, config, enginePath, projectFolder, packagePath)
+        : terminal => terminal.runProcess(executable, ['package', projectFolder, packagePath], cwd);
+
+    if (definition.task === 'package') {
+        const execution = builtIn
+            ? new vscode.CustomExecution(async () => new XsTaskTerminal([packageStep]))
+            : new vscode.ProcessExecution(executable, ['package', projectFolder, packagePath], { cwd });
+        const task = new vscode.Task(definition, folder, name, XsTaskProvider.type, execution, PACKAGE_PROBLEM_MATCHERS);
+        task.group = vscode.TaskGroup.Build;
+        return task;
+    }
+
+    const target = definition.packaged ? packagePath : projectFolder;
+    const runStep: XsTaskStep = terminal => terminal.runProcess(
+        executable, ['run', target], cwd, errors => engineRunner.showScriptErrors(projectFolder, errors)
+    );
+    // Provided tasks can't have dependsOn, so package and run runs both steps itself
+    const steps = definition.packaged && definition.packageFirst ? [packageStep, runStep] : [runStep];
+    return new vscode.Task(
+        definition,
+        folder,
+        name,
+        XsTaskProvider.type,
+        new vscode.CustomExecution(async () => new XsTaskTerminal(steps)),
+        steps.length > 1 ? PACKAGE_PROBLEM_MATCHERS : []
+    );
+}
+
+// One step of a task that runs in an XsTaskTerminal; resolves with its exit code
+type XsTaskStep = (terminal: XsTaskTerminal) => Promise<number>;
+
+// Runs a task's steps one after another in its terminal, stopping at the first failure
+class XsTaskTerminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    readonly onDidWrite = this.writeEmitter.event;
+    private readonly closeEmitter = new vscode.EventEmitter<number>();
+    readonly onDidClose = this.closeEmitter.event;
+
+    private process: ChildProcess | undefined;
+    private closed = false;
+
+    constructor(private readonly steps: XsTaskStep[]) {}
+
+    open() {
+        this.run().then(code => this.closeEmitter.fire(code));
+    }
+
+    // The task was terminated
+    close() {
+        this.closed = true;
+        this.process?.kill();
+    }
+
+    // onScriptErrors gets the Wren errors in the output so far, starting with none
+    runProcess(executable: string, args: string[], cwd: string, onScriptErrors?: (errors: ScriptError[]) => void): Promise<number> {
+        return new Promise(resolve => {
+            let child: ChildProcess;
+            try {
+                child = spawn(executable, args, { cwd });
+            } catch (error) {
+                this.writeLine(`Failed to start ${executable}: ${error}`);
+                resolve(1);
+                return;
+            }
+            this.process = child;
+
+            const parser = new WrenErrorParser();
+            onScriptErrors?.([]);
+            const report = (lines: string[]) => {
+                lines.forEach(line => parser.feed(line));
+                if (onScriptErrors && parser.errors.length > 0) {
+                    onScriptErrors(parser.errors);
+                }
+            };
+            const buffers: OutputLineBuffer[] = [];
+            const handleOutput = (stream: NodeJS.ReadableStream | null) => {
+                const buffer = new OutputLineBuffer();
+                buffers.push(buffer);
+                stream?.setEncoding('utf8');
+                stream?.on('data', (data: string) => {
+                    this.writeEmitter.fire(data.replace(/\r?\n/g, '\r\n'));
+                    report(buffer.push(data));
+                });
+            };
+            handleOutput(child.stdout);
+            handleOutput(child.stderr);
+
+            // 'error' (e.g. executable not found) and 'close' can both fire; settle once
+            let settled = false;
+            const settle = (code: number) => {
+                if (!settled) {
+                    settled = true;
+                    this.process = undefined;
+                    resolve(code);
+                }
+            };
+            child.on('error', error => {
+                this.writeLine(`Failed to start ${executable}: ${error.message}`);
+                settle(1);
+            });
+            child.on('close', (code, signal) => {
+                // A last line without a newline is complete once the process has exited
+                report(buffers.map(buffer => buffer.flush()).filter((line): line is string => line !== undefined));
+                if (signal) {
+                    this.writeLine(`${path.basename(executable)} was killed by ${signal}`);
+                }
+                settle(code ?? 1);
+            });
+        });
+    }
+
+    writeLine(line: string) {
+        this.writeEmitter.fire(line + '\r\n');
+    }
+
+    private async run(): Promise<number> {
+        for (const step of this.steps) {
+            const code = await step(this);
+            if (code !== 0 || this.closed) {
+                return code;
+            }
+        }
+        return 0;
+    }
+}
+
+// Runs the built-in package writer in a task terminal, reporting in the same
+// "error: <file>: <message>" form the engine's packager uses
+async function buildWithBuiltInWriter(
+    terminal: XsTaskTerminal,
+    config: vscode.WorkspaceConfiguration,
+    enginePath: string,
+    projectFolder: string,
+    outputPath: string
+): Promise<number> {
+    terminal.writeLine(`Packaging ${path.basename(projectFolder)} with the built-in writer`);
+    try {
+        const versionString = config.get<string>('package.version', '') ||
+            await queryEngineVersion(enginePath);
+        await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(outputPath)));
+        const count = await buildPackage(vscode.Uri.file(projectFolder), vscode.Uri.file(outputPath), {
+            version: encodePackageVersion(versionString),
+            compress: config.get<boolean>('package.compress', true)
+        });
+        terminal.writeLine(`Packaged ${count} files into ${outputPath}`);
+        return 0;
+    } catch (error) {
+        terminal.writeLine(`error: ${outputPath}: ${error instanceof Error ? error.message : error}`);
+        return 1;
+    }
+}
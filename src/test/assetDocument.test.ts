@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { parseAssetText } from '../assets/assetDocument';
+import { createDefaultAnimation, createDefaultSprites } from '../assets/assetTypes';
+
+suite('Asset Document Test Suite', () => {
+	test('Empty files get the defaults and valid files are read as they are', () => {
+		assert.deepStrictEqual(parseAssetText('  \n', createDefaultAnimation()), { data: createDefaultAnimation() });
+
+		const sprites = { image: '[game]/images/hero.png', sprites: { idle: { x: 0, y: 0, width: 16, height: 16 } } };
+		assert.deepStrictEqual(parseAssetText(JSON.stringify(sprites, null, 2), createDefaultSprites()), { data: sprites });
+	});
+
+	test('Unparseable files are errors, never defaults', () => {
+		const broken = parseAssetText('{\n  "image": "",\n  "sprites": {,}\n}', createDefaultSprites());
+		assert.strictEqual(broken.data, undefined);
+		assert.ok(broken.error);
+		if (broken.error.line !== undefined) {
+			// Node versions that report the position of the error
+			assert.deepStrictEqual([broken.error.line, broken.error.column], [3, 15]);
+		}
+
+		assert.deepStrictEqual(parseAssetText('[1, 2]', createDefaultSprites()).error, { message: 'The file must contain a JSON object' });
+		assert.deepStrictEqual(parseAssetText('{ "image": "", "animations": [] }', createDefaultAnimation()).error, { message: '"animations" must be an object' });
+	});
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { validateAsset, AssetValidationContext } from '../assets/assetValidation';
+import { getImageSize } from '../assets/imageSize';
+
+suite('Asset Validation Test Suite', () => {
+	const context: AssetValidationContext = {
+		getImageSize: async imagePath => imagePath === '[game]/images/hero.png' ? { width: 64, height: 32 } : null
+	};
+	const validate = async (kind: 'animation' | 'sprite' | 'tiles', data: unknown) => {
+		const text = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+		return (await validateAsset(kind, text, context)).map(problem =>
+			`${problem.severity} ${text.substring(problem.start, problem.end)}: ${problem.message}`);
+	};
+
+	test('Reads the size of PNG, GIF, BMP and JPEG images', () => {
+		const png = Buffer.alloc(24);
+		png.writeUInt32BE(0x89504e47, 0);
+		png.write('IHDR', 12, 'ascii');
+		png.writeUInt32BE(64, 16);
+		png.writeUInt32BE(32, 20);
+		assert.deepStrictEqual(getImageSize(png), { width: 64, height: 32 });
+
+		const gif = Buffer.from([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 16, 0, 8, 0]);
+		assert.deepStrictEqual(getImageSize(gif), { width: 16, height: 8 });
+
+		const bmp = Buffer.alloc(26);
+		bmp.write('BM', 0, 'ascii');
+		bmp.writeInt32LE(20, 18);
+		bmp.writeInt32LE(-10, 22);
+		assert.deepStrictEqual(getImageSize(bmp), { width: 20, height: 10 });
+
+		// SOI, an APP0 segment, then SOF0 with height 48 and width 96
+		const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 4, 0, 0, 0xff, 0xc0, 0, 11, 8, 0, 48, 0, 96, 1, 0, 0, 0]);
+		assert.deepStrictEqual(getImageSize(jpeg), { width: 96, height: 48 });
+
+		assert.strictEqual(getImageSize(Buffer.from('not an image')), undefined);
+	});
+
+	test('Accepts valid assets', async () => {
+		assert.deepStrictEqual(await validate('animation', {
+			image: '[game]/images/hero.png', columns: 4, rows: 2, fps: 10, padding: 1, animations: { walk: [0, 1, 7] }
+		}), []);
+		assert.deepStrictEqual(await validate('sprite', {
+			image: '[game]/images/hero.png', sprites: { head: { x: 0, y: 0, width: 16, height: 16 }, body: { x: 48, y: 16, width: 16, height: 16 } }
+		}), []);
+		assert.deepStrictEqual(await validate('tiles', { image: '[game]/images/hero.png', columns: 8, rows: 4 }), []);
+	});
+
+	test('Reports frames out of range, sprites outside the image, missing images and negative padding', async () => {
+		assert.deepStrictEqual(await validate('animation', {
+			image: '[game]/images/hero.png', columns: 2, rows: 2, fps: 10, imagePadding: -2, animations: { walk: [0, 4], jump: [1.5] }
+		}), [
+			'error -2: "imagePadding" cannot be negative',
+			'error 4: Frame 4 of "walk" is out of range: the sheet has 4 frames (0-3)',
+			'error 1.5: Frame 1.5 of "jump" must be a whole number'
+		]);
+		assert.deepStrictEqual(await validate('sprite', {
+			image: '[game]/images/hero.png', sprites: { wide: { x: 60, y: 0, width: 8, height: 8 }, off: { x: -1, y: 0, width: 4, height: 4 }, flat: { x: 0, y: 0, width: 0, height: 4 } }
+		}), [
+			'error "wide": Sprite "wide" at 60,0 (8x8) is outside the image (64x32)',
+			'error "off": Sprite "off" at -1,0 (4x4) is outside the image (64x32)',
+			'error "flat": Sprite "flat" must have a width and height above 0'
+		]);
+		assert.deepStrictEqual(await validate('tiles', { image: '[game]/images/gone.png', columns: 0, padding: -1 }), [
+			'error "[game]/images/gone.png": Image "[game]/images/gone.png" does not exist',
+			'error 0: "columns" must be a whole number of at least 1',
+			'error {: Missing "rows"',
+			'error -1: "padding" cannot be negative'
+		]);
+		// The message comes from JSON.parse
+		const [syntaxError] = await validate('tiles', '{ "image": "a.png", }');
+		assert.ok(syntaxError.startsWith('error }: Invalid JSON: '), syntaxError);
+	});
+});
@@ -0,0 +1,249 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { XsDebugAdapter, XsLaunchPlan } from '../debug/debugAdapter';
+import { MockEngine } from './mockEngine';
+import { resolveRunOptions } from '../runProfiles';
+
+// Node stands in for the engine: each step runs a small script
+function createPlan(...scripts: string[]): XsLaunchPlan {
+	return {
+		executable: process.execPath,
+		cwd: os.tmpdir(),
+		steps: scripts.map((script, index) => ({ label: `step ${index}`, args: ['-e', script] }))
+	};
+}
+
+// Run a session and collect the messages the adapter sends until it terminates
+function runSession(adapter: XsDebugAdapter, afterLaunch?: () => void): Promise<any[]> {
+	return new Promise(resolve => {
+		const messages: any[] = [];
+		adapter.onDidSendMessage((message: any) => {
+			messages.push(message);
+			if (message.type === 'event' && message.event === 'terminated') {
+				resolve(messages);
+			}
+		});
+		adapter.handleMessage({ seq: 1, type: 'request', command: 'initialize', arguments: {} } as any);
+		adapter.handleMessage({ seq: 2, type: 'request', command: 'launch', arguments: {} } as any);
+		afterLaunch?.();
+	});
+}
+
+suite('Debug Adapter Test Suite', () => {
+	test('Forwards output and reports the exit code', async () => {
+		const adapter = new XsDebugAdapter(createPlan('console.log("hello"); console.error("oops"); process.exit(3)'));
+		const messages = await runSession(adapter);
+
+		const output = (category: string) => messages
+			.filter(m => m.event === 'output' && m.body.category === category)
+			.map(m => m.body.output)
+			.join('');
+		assert.strictEqual(output('stdout'), 'hello\n');
+		assert.strictEqual(output('stderr'), 'oops\n');
+
+		const exited = messages.find(m => m.event === 'exited');
+		assert.strictEqual(exited.body.exitCode, 3);
+		assert.ok(messages.some(m => m.event === 'initialized'));
+	});
+
+	test('Stops after a failing step', async () => {
+		const adapter = new XsDebugAdapter(createPlan('process.exit(1)', 'console.log("should not run")'));
+		const messages = await runSession(adapter);
+
+		assert.ok(!messages.some(m => m.event === 'output' && m.body.category === 'stdout'));
+		assert.strictEqual(messages.find(m => m.event === 'exited').body.exitCode, 1);
+	});
+
+	test('Runs a package from the folder of the project it was built from', async () => {
+		const projectFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'xs-launch-'));
+		const packagePath = path.join(projectFolder, '.package', 'demo.xs');
+		fs.mkdirSync(path.dirname(packagePath));
+		fs.writeFileSync(packagePath, '');
+		try {
+			// Like `xs run <package>`: ${workspaceFolder} and the working directory are the project's
+			const config = { get: (_key: string, defaultValue?: any) => defaultValue } as unknown as vscode.WorkspaceConfiguration;
+			const options = resolveRunOptions(config, projectFolder, undefined, { args: ['--scene=${workspaceFolder}/title.json'] });
+			const adapter = new XsDebugAdapter({
+				executable: process.execPath,
+				cwd: options.cwd,
+				steps: [{ label: 'run', args: ['-e', 'console.log([process.cwd(), ...process.argv.slice(1)].join(" "))', '--', packagePath, ...options.args] }]
+			});
+			const messages = await runSession(adapter);
+
+			const stdout = messages.filter(m => m.event === 'output' && m.body.category === 'stdout').map(m => m.body.output).join('');
+			assert.strictEqual(stdout, `${fs.realpathSync(projectFolder)} ${packagePath} --scene=${projectFolder}/title.json\n`);
+			assert.strictEqual(messages.find(m => m.event === 'exited').body.exitCode, 0);
+		} finally {
+			fs.rmSync(projectFolder, { recursive: true, force: true });
+		}
+	});
+
+	test('Terminates a running engine', async () => {
+		const adapter = new XsDebugAdapter(createPlan('setInterval(() => {}, 1000)'));
+		const messages = await runSession(adapter, () => {
+			setTimeout(() => adapter.handleMessage({ seq: 3, type: 'request', command: 'terminate' } as any), 200);
+		});
+
+		const response = messages.find(m => m.type === 'response' && m.command === 'terminate');
+		assert.ok(response.success);
+		assert.ok(messages.some(m => m.event === 'exited'));
+	});
+});
+
+// Minimal Debug Adapter Protocol client for driving the adapter step by step
+class DebugClient {
+	readonly messages: any[] = [];
+	private sequence = 1;
+	private waiters: { match: (message: any) => boolean; resolve: (message: any) => void }[] = [];
+
+	constructor(private readonly adapter: XsDebugAdapter) {
+		adapter.onDidSendMessage((message: any) => {
+			this.messages.push(message);
+			this.waiters = this.waiters.filter(waiter => {
+				if (waiter.match(message)) {
+					waiter.resolve(message);
+					return false;
+				}
+				return true;
+			});
+		});
+	}
+
+	request(command: string, args: object = {}): Promise<any> {
+		const seq = this.sequence++;
+		const response = this.waitFor(m => m.type === 'response' && m.request_seq === seq);
+		this.adapter.handleMessage({ seq, type: 'request', command, arguments: args } as any);
+		return response;
+	}
+
+	waitForEvent(event: string): Promise<any> {
+		return this.waitFor(m => m.type === 'event' && m.event === event);
+	}
+
+	private waitFor(match: (message: any) => boolean): Promise<any> {
+		return new Promise(resolve => this.waiters.push({ match, resolve }));
+	}
+}
+
+suite('Engine Debugging Test Suite', () => {
+	const projectFolder = path.join(os.tmpdir(), 'xs-project');
+	let engine: MockEngine;
+
+	teardown(async () => {
+		await engine?.close();
+	});
+
+	test('Bridges breakpoints, stops, stack traces and variables to the engine', async () => {
+		engine = await MockEngine.start([
+			{
+				reason: 'breakpoint',
+				frames: [
+					{ function: 'Player.update(_)', file: 'scripts/player.wren', line: 10 },
+					{ function: 'Game.update(_)', file: 'game.wren', line: 42 }
+				],
+				scopes: [{ name: 'Locals', reference: 1 }],
+				variables: {
+					1: [{ name: 'dt', value: '0.016', type: 'Num' }, { name: 'this', value: 'Player', reference: 2 }]
+				}
+			},
+			{ reason: 'step', frames: [{ function: 'Player.update(_)', file: 'scripts/player.wren', line: 11 }] }
+		], [99]);
+
+		const plan = createPlan('setInterval(() => {}, 1000)');
+		plan.steps[0].debug = true;
+		plan.debug = { port: engine.port, projectFolder };
+		const adapter = new XsDebugAdapter(plan);
+		const client = new DebugClient(adapter);
+
+		await client.request('initialize');
+		await client.request('launch');
+		// Sent before the engine is connected, so verification arrives as breakpoint events
+		const breakpointsResponse = await client.request('setBreakpoints', {
+			source: { path: path.join(projectFolder, 'scripts', 'player.wren') },
+			breakpoints: [{ line: 10 }, { line: 99 }]
+		});
+		assert.strictEqual(breakpointsResponse.body.breakpoints.length, 2);
+
+		const stopped = client.waitForEvent('stopped');
+		await client.request('configurationDone');
+		assert.strictEqual((await stopped).body.reason, 'breakpoint');
+
+		assert.deepStrictEqual(engine.received.find(m => m.command === 'setBreakpoints')?.args, { file: 'scripts/player.wren', lines: [10, 99] });
+		const verified = client.messages.filter(m => m.event === 'breakpoint').map(m => m.body.breakpoint.verified);
+		assert.deepStrictEqual(verified, [true, false]);
+
+		const stackTrace = await client.request('stackTrace', { threadId: 1 });
+		assert.deepStrictEqual(stackTrace.body.stackFrames.map((f: any) => [f.name, f.source.path, f.line]), [
+			['Player.update(_)', path.join(projectFolder, 'scripts', 'player.wren'), 10],
+			['Game.update(_)', path.join(projectFolder, 'game.wren'), 42]
+		]);
+
+		const scopes = await client.request('scopes', { frameId: 0 });
+		const variables = await client.request('variables', { variablesReference: scopes.body.scopes[0].variablesReference });
+		assert.deepStrictEqual(variables.body.variables.map((v: any) => [v.name, v.value, v.variablesReference]), [
+			['dt', '0.016', 0],
+			['this', 'Player', 2]
+		]);
+
+		const evaluate = await client.request('evaluate', { expression: 'dt', frameId: 0 });
+		assert.strictEqual(evaluate.body.result, 'value of dt');
+
+		const stepped = client.waitForEvent('stopped');
+		await client.request('next', { threadId: 1 });
+		assert.strictEqual((await stepped).body.reason, 'step');
+		assert.ok(engine.received.some(m => m.command === 'stepOver'));
+
+		const terminated = client.waitForEvent('terminated');
+		await client.request('terminate');
+		await terminated;
+	});
+
+	test('Closes connections that fail to attach and stops retrying when the engine exits', async () => {
+		engine = await MockEngine.start([], [], ['setBreakpoints']);
+		const plan = createPlan('setTimeout(() => process.exit(0), 500)');
+		plan.steps[0].debug = true;
+		plan.debug = { port: engine.port, projectFolder };
+		const adapter = new XsDebugAdapter(plan);
+		const client = new DebugClient(adapter);
+
+		await client.request('initialize');
+		// A pending breakpoint makes every attach send setBreakpoints, which this engine rejects
+		await client.request('setBreakpoints', {
+			source: { path: path.join(projectFolder, 'game.wren') },
+			breakpoints: [{ line: 1 }]
+		});
+		const terminated = client.waitForEvent('terminated');
+		await client.request('launch');
+		await terminated;
+
+		const connections = engine.connections;
+		assert.ok(connections > 0);
+		await new Promise(resolve => setTimeout(resolve, 300));
+		assert.strictEqual(engine.connections, connections);
+		assert.strictEqual(engine.openConnections, 0);
+		assert.ok(!client.messages.some(m => m.event === 'output' && /Could not connect/.test(m.body.output)));
+	});
+
+	test('Runs without the engine debugger when debugging is off', async () => {
+		engine = await MockEngine.start([]);
+		const adapter = new XsDebugAdapter(createPlan('process.exit(0)'));
+		const client = new DebugClient(adapter);
+
+		await client.request('initialize');
+		const terminated = client.waitForEvent('terminated');
+		await client.request('launch');
+		const breakpoints = await client.request('setBreakpoints', {
+			source: { path: path.join(projectFolder, 'game.wren') },
+			breakpoints: [{ line: 1 }]
+		});
+		assert.strictEqual(breakpoints.body.breakpoints[0].verified, false);
+
+		const stackTrace = await client.request('stackTrace', { threadId: 1 });
+		assert.strictEqual(stackTrace.success, false);
+		await terminated;
+		assert.strictEqual(engine.received.length, 0);
+	});
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { compareEngineVersions, matchesEngineVersion, selectEngineInstall } from '../engine';
+
+suite('Engine Versions Test Suite', () => {
+	test('Matches pinned versions', () => {
+		assert.ok(matchesEngineVersion('24.310', '24.310'));
+		assert.ok(!matchesEngineVersion('24.311', '24.310'));
+		// A year alone accepts any build of that year
+		assert.ok(matchesEngineVersion('24.311', '24'));
+		assert.ok(!matchesEngineVersion('25.1', '24'));
+	});
+
+	test('Orders versions numerically', () => {
+		assert.ok(compareEngineVersions('24.99', '24.100') < 0);
+		assert.ok(compareEngineVersions('25.1', '24.900') > 0);
+		assert.strictEqual(compareEngineVersions('24.10', '24.10'), 0);
+	});
+
+	test('Selects the newest matching install', () => {
+		const installs = [
+			{ path: '/engines/xs-24.100', version: '24.100' },
+			{ path: '/engines/xs-24.99', version: '24.99' },
+			{ path: '/engines/broken', version: undefined },
+			{ path: '/engines/xs-25.3', version: '25.3' }
+		];
+		assert.strictEqual(selectEngineInstall(installs, '24')?.path, '/engines/xs-24.100');
+		assert.strictEqual(selectEngineInstall(installs, '24.99')?.path, '/engines/xs-24.99');
+		assert.strictEqual(selectEngineInstall(installs, '23'), undefined);
+	});
+});
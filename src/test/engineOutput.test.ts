@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OutputLineBuffer, WrenErrorParser, createScriptDiagnostics, resolveScriptUri } from '../engineOutput';
+
+suite('Engine Output Test Suite', () => {
+	const parse = (output: string) => {
+		const parser = new WrenErrorParser();
+		output.split('\n').forEach(line => parser.feed(line));
+		return parser.errors;
+	};
+
+	test('Parses runtime errors with their stack', () => {
+		const errors = parse([
+			'Loading game...',
+			'Player does not implement \'jump()\'.',
+			'[scripts/player line 12] in Player.update(_)',
+			'[game line 40] in Game.update(_)',
+			'[game line 3] in (script)',
+			'Done'
+		].join('\n'));
+
+		assert.strictEqual(errors.length, 1);
+		assert.strictEqual(errors[0].message, 'Player does not implement \'jump()\'.');
+		assert.deepStrictEqual(errors[0].location, { module: 'scripts/player', line: 12, function: 'Player.update(_)' });
+		assert.deepStrictEqual(errors[0].stack.map(frame => [frame.module, frame.line]), [['game', 40], ['game', 3]]);
+	});
+
+	test('Parses compile errors', () => {
+		const errors = parse([
+			'[./game line 3] Error at \'foo\': Expect expression.',
+			'[scripts/enemy line 7] [Error] Error at \')\': Expect \'}\' after block.'
+		].join('\n'));
+
+		assert.deepStrictEqual(errors.map(error => [error.location.module, error.location.line, error.message]), [
+			['./game', 3, 'Error at \'foo\': Expect expression.'],
+			['scripts/enemy', 7, 'Error at \')\': Expect \'}\' after block.']
+		]);
+	});
+
+	test('Keeps a last line without a newline until the output ends', () => {
+		const buffer = new OutputLineBuffer();
+		assert.deepStrictEqual(buffer.push('Loading game...\r\n[game line'), ['Loading game...']);
+		assert.deepStrictEqual(buffer.push(' 3] Error at \'foo\': Expect expression.'), []);
+
+		const parser = new WrenErrorParser();
+		parser.feed(buffer.flush()!);
+		assert.deepStrictEqual(parser.errors.map(error => [error.location.module, error.location.line]), [['game', 3]]);
+		assert.strictEqual(buffer.flush(), undefined);
+	});
+
+	test('Resolves module names to script files', () => {
+		const projectFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'xs-output-'));
+		try {
+			fs.mkdirSync(path.join(projectFolder, 'scripts'));
+			fs.writeFileSync(path.join(projectFolder, 'game.wren'), '');
+			fs.writeFileSync(path.join(projectFolder, 'scripts', 'player.wren'), '');
+
+			assert.strictEqual(resolveScriptUri(projectFolder, './game').fsPath, path.join(projectFolder, 'game.wren'));
+			assert.strictEqual(resolveScriptUri(projectFolder, '[game]/scripts/player.wren').fsPath, path.join(projectFolder, 'scripts', 'player.wren'));
+			// Imported by name from the main script
+			assert.strictEqual(resolveScriptUri(projectFolder, 'player').fsPath, path.join(projectFolder, 'scripts', 'player.wren'));
+		} finally {
+			fs.rmSync(projectFolder, { recursive: true, force: true });
+		}
+	});
+
+	test('Reports errors of a nested project at its existing script files', () => {
+		const workspaceFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'xs-output-'));
+		try {
+			const projectFolder = path.join(workspaceFolder, 'games', 'demo');
+			fs.mkdirSync(path.join(projectFolder, 'scripts'), { recursive: true });
+			fs.writeFileSync(path.join(projectFolder, 'game.wren'), '');
+			fs.writeFileSync(path.join(projectFolder, 'scripts', 'player.wren'), '');
+
+			// As a run task's engine prints them
+			const errors = parse([
+				'[./game line 3] Error at \'foo\': Expect expression.',
+				'Player does not implement \'jump()\'.',
+				'[player line 12] in Player.update(_)',
+				'[game line 40] in (script)'
+			].join('\n'));
+			const files = [...createScriptDiagnostics(projectFolder, errors).values()];
+
+			assert.deepStrictEqual(files.map(file => file.uri.fsPath), [
+				path.join(projectFolder, 'game.wren'),
+				path.join(projectFolder, 'scripts', 'player.wren')
+			]);
+			assert.ok(files.every(file => fs.existsSync(file.uri.fsPath)));
+		} finally {
+			fs.rmSync(workspaceFolder, { recursive: true, force: true });
+		}
+	});
+});
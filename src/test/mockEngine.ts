@@ -0,0 +1,107 @@
+import * as net from 'net';
+import { EngineStackFrame, EngineVariable } from '../debug/engineConnection';
+
+// One scripted pause of the game: the stopped event and what the engine reports while paused
+export interface MockStop {
+	reason: string;
+	frames: EngineStackFrame[];
+	scopes?: { name: string; reference: number }[];
+	variables?: { [reference: number]: EngineVariable[] };
+}
+
+// Local stand-in for the engine side of the xs debug protocol: answers requests and
+// replays the scripted stops, one after configurationDone and one after every continue/step
+export class MockEngine {
+	readonly received: { command: string; args?: any }[] = [];
+	connections = 0;
+	private readonly sockets = new Set<net.Socket>();
+	private current: MockStop | undefined;
+	private next = 0;
+
+	private constructor(
+		private readonly server: net.Server,
+		private readonly stops: MockStop[],
+		private readonly unverifiedLines: number[],
+		private readonly failingCommands: string[]
+	) {
+		server.on('connection', socket => this.accept(socket));
+	}
+
+	// Commands in failingCommands are answered with an error instead of a result
+	static start(stops: MockStop[], unverifiedLines: number[] = [], failingCommands: string[] = []): Promise<MockEngine> {
+		return new Promise(resolve => {
+			const server = net.createServer();
+			const engine = new MockEngine(server, stops, unverifiedLines, failingCommands);
+			server.listen(0, '127.0.0.1', () => resolve(engine));
+		});
+	}
+
+	get port(): number {
+		return (this.server.address() as net.AddressInfo).port;
+	}
+
+	get openConnections(): number {
+		return this.sockets.size;
+	}
+
+	close(): Promise<void> {
+		for (const socket of this.sockets) {
+			socket.destroy();
+		}
+		return new Promise(resolve => this.server.close(() => resolve()));
+	}
+
+	private accept(socket: net.Socket) {
+		this.connections++;
+		this.sockets.add(socket);
+		socket.on('close', () => this.sockets.delete(socket));
+		socket.setEncoding('utf8');
+
+		let buffer = '';
+		socket.on('data', (data: string) => {
+			buffer += data;
+			let newline: number;
+			while ((newline = buffer.indexOf('\n')) >= 0) {
+				const message = JSON.parse(buffer.substring(0, newline));
+				buffer = buffer.substring(newline + 1);
+				this.received.push({ command: message.command, args: message.args });
+				const response = this.failingCommands.includes(message.command)
+					? { id: message.id, error: `Unknown command '${message.command}'` }
+					: { id: message.id, result: this.handle(socket, message.command, message.args) };
+				socket.write(JSON.stringify(response) + '\n');
+			}
+		});
+	}
+
+	private handle(socket: net.Socket, command: string, args: any): object {
+		switch (command) {
+			case 'setBreakpoints':
+				return { lines: args.lines.map((line: number) => this.unverifiedLines.includes(line) ? null : line) };
+			case 'configurationDone':
+			case 'continue':
+			case 'stepIn':
+			case 'stepOver':
+			case 'stepOut':
+				// Stop after the response has been sent, like a running game would
+				setTimeout(() => this.stopNext(socket), 10);
+				return {};
+			case 'stackTrace':
+				return { frames: this.current?.frames || [] };
+			case 'scopes':
+				return { scopes: this.current?.scopes || [] };
+			case 'variables':
+				return { variables: this.current?.variables?.[args.reference] || [] };
+			case 'evaluate':
+				return { value: `value of ${args.expression}` };
+			default:
+				return {};
+		}
+	}
+
+	private stopNext(socket: net.Socket) {
+		this.current = this.stops[this.next++];
+		if (this.current) {
+			socket.write(JSON.stringify({ event: 'stopped', reason: this.current.reason }) + '\n');
+		}
+	}
+}
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { diffPackageEntries } from '../package/packageDiff';
+import { PackageEntry, PackageParser } from '../package/packageParser';
+import { PackageWriter } from '../package/packageWriter';
+
+suite('Package Diff Test Suite', () => {
+	const build = (files: { [relativePath: string]: string }) => {
+		const buffer = PackageWriter.write(
+			Object.entries(files).map(([relativePath, text]) => ({ relativePath, data: Buffer.from(text) })),
+			{ version: 0, compress: true }
+		);
+		const info = PackageParser.parseBuffer(buffer);
+		const read = async (entry: PackageEntry) => PackageParser.readEntryFromBuffer(buffer, info, entry);
+		return { info, read };
+	};
+
+	test('Reports added, removed, changed and unchanged entries', async () => {
+		const oldPackage = build({
+			'game.wren': 'class Game {}',
+			'player.wren': 'class Player {}',
+			'images\\hero.png': 'hero',
+			'old.txt': 'gone'
+		});
+		const newPackage = build({
+			'game.wren': 'class Game {}',
+			'player.wren': 'class Player { speed { 10 } }',
+			'images/hero.png': 'HERO',
+			'new.txt': 'here'
+		});
+
+		const entries = await diffPackageEntries(oldPackage.info, newPackage.info, oldPackage.read, newPackage.read);
+		assert.deepStrictEqual(entries.map(e => [e.relativePath, e.change]), [
+			['game.wren', 'unchanged'],
+			['images/hero.png', 'changed'],
+			['new.txt', 'added'],
+			['old.txt', 'removed'],
+			['player.wren', 'changed']
+		]);
+		assert.deepStrictEqual(entries.find(e => e.change === 'added'), { relativePath: 'new.txt', change: 'added', newSize: 4, newPacked: 4 });
+	});
+
+	test('Only reads the contents of entries with the same size', async () => {
+		const oldPackage = build({ 'a.txt': 'same', 'b.txt': 'short' });
+		const newPackage = build({ 'a.txt': 'same', 'b.txt': 'much longer' });
+		const read: string[] = [];
+		const track = (reader: (entry: PackageEntry) => Promise<Uint8Array>) => (entry: PackageEntry) => {
+			read.push(entry.relativePath);
+			return reader(entry);
+		};
+
+		await diffPackageEntries(oldPackage.info, newPackage.info, track(oldPackage.read), track(newPackage.read));
+		assert.deepStrictEqual(read, ['a.txt', 'a.txt']);
+	});
+});
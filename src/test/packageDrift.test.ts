@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { DriftSources, comparePackageWithProject, describeDrift } from '../package/packageDrift';
+import { PackageParser } from '../package/packageParser';
+import { PackageWriter } from '../package/packageWriter';
+
+suite('Package Drift Test Suite', () => {
+	const packaged: { [relativePath: string]: string } = {
+		'game.wren': 'class Game {}',
+		'player.wren': 'class Player {}',
+		'images/hero.png': 'hero',
+		'notes.txt': 'todo',
+		'old.wren': 'class Old {}'
+	};
+	const buffer = PackageWriter.write(
+		Object.entries(packaged).map(([relativePath, text]) => ({ relativePath, data: Buffer.from(text) })),
+		{ version: 0, compress: false }
+	);
+	const info = PackageParser.parseBuffer(buffer);
+
+	// `disk` is every file in the project folder; `included` the ones the package is built from
+	const sources = (disk: { [relativePath: string]: string }, included: string[]): DriftSources => ({
+		projectFiles: included,
+		getFileSize: async relativePath => disk[relativePath]?.length,
+		readFile: async relativePath => Buffer.from(disk[relativePath]),
+		readEntry: async entry => PackageParser.readEntryFromBuffer(buffer, info, entry)
+	});
+
+	test('Reports changed, unpackaged and deleted files', async () => {
+		const disk = {
+			'game.wren': 'class Game {}',
+			'player.wren': 'class Player {}',
+			'images/hero.png': 'HERO',
+			'notes.txt': 'todo: more',
+			'enemy.wren': 'class Enemy {}'
+		};
+		const drift = await comparePackageWithProject(info, sources(disk, Object.keys(disk)));
+
+		assert.deepStrictEqual(drift, {
+			missingFromPackage: ['enemy.wren'],
+			missingOnDisk: ['old.wren'],
+			modified: ['images/hero.png', 'notes.txt']
+		});
+		assert.strictEqual(describeDrift(drift), '2 changed, 1 not packaged, 1 no longer on disk');
+	});
+
+	test('Packaged files that are now excluded still exist', async () => {
+		const disk = { ...packaged };
+		const drift = await comparePackageWithProject(info, sources(disk, ['game.wren', 'player.wren', 'images/hero.png']));
+
+		assert.deepStrictEqual(drift, { missingFromPackage: [], missingOnDisk: [], modified: [] });
+	});
+});
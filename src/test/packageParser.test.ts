@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { PackageFormatError, PackageParser } from '../package/packageParser';
+import { PackageWriter } from '../package/packageWriter';
+
+suite('Package Parser Test Suite', () => {
+	const files = [
+		{ relativePath: 'game.wren', data: Buffer.from('System.print("hello")\n'.repeat(20)) },
+		{ relativePath: 'data/level.json', data: Buffer.from('{ "tiles": [] }') }
+	];
+	const packageBuffer = PackageWriter.write(files, { version: 0, compress: false });
+
+	// Offset of the first entry's data offset field: header (20) + path length (8) + path + size (8)
+	const firstOffsetField = 20 + 8 + 'game.wren'.length + 8;
+
+	test('Rejects files with a wrong magic number', () => {
+		const buffer = Buffer.from(packageBuffer);
+		buffer[0] ^= 0xFF;
+		assert.throws(() => PackageParser.parseBuffer(buffer), PackageFormatError);
+	});
+
+	test('Rejects a truncated entry table', () => {
+		assert.throws(() => PackageParser.parseBuffer(packageBuffer.subarray(0, 40)), PackageFormatError);
+	});
+
+	test('Rejects entry counts that cannot fit in the file', () => {
+		const buffer = Buffer.from(packageBuffer);
+		buffer.writeBigUInt64LE(1000000n, 12);
+		assert.throws(() => PackageParser.parseBuffer(buffer), /cannot fit/);
+	});
+
+	test('Reports entries that extend past the end of the file', () => {
+		const truncated = packageBuffer.subarray(0, packageBuffer.length - 4);
+		const info = PackageParser.parseBuffer(truncated);
+
+		const errors = info.diagnostics.filter(d => d.severity === 'error');
+		assert.strictEqual(errors.length, 1);
+		assert.strictEqual(errors[0].entryIndex, 1);
+		assert.throws(() => PackageParser.readEntryFromBuffer(truncated, info, info.entries[1]), PackageFormatError);
+	});
+
+	test('Reports overlapping entries', () => {
+		const buffer = Buffer.from(packageBuffer);
+		// Point the second entry at the data of the first one
+		const secondOffsetField = firstOffsetField + 8 + 8 + 1 + 8 + 'data/level.json'.length + 8;
+		buffer.writeBigUInt64LE(4n, secondOffsetField);
+		const info = PackageParser.parseBuffer(buffer);
+
+		assert.ok(info.diagnostics.some(d => d.severity === 'error' && /overlaps/.test(d.message)));
+	});
+
+	test('Rejects compressed entries that inflate past their size', () => {
+		const buffer = PackageWriter.write([{ relativePath: 'bomb.txt', data: Buffer.alloc(1024 * 1024) }], { version: 0, compress: true });
+		const info = PackageParser.parseBuffer(buffer);
+		// Claim a tiny size for the megabyte of zeros
+		info.entries[0].uncompressedSize = 16n;
+
+		assert.throws(() => PackageParser.readEntryFromBuffer(buffer, info, info.entries[0]), /inflates past its size of 16 bytes/);
+	});
+
+	test('Parses a valid package without diagnostics', () => {
+		const info = PackageParser.parseBuffer(packageBuffer);
+		assert.deepStrictEqual(info.diagnostics, []);
+		assert.strictEqual(info.fileSize, packageBuffer.length);
+	});
+
+	test('Reads only the entry table from disk', async () => {
+		// A large data section must not prevent parsing the (small) entry table
+		const largeFiles = [...files, { relativePath: 'audio/music.ogg', data: Buffer.alloc(4 * 1024 * 1024, 7) }];
+		const filePath = path.join(os.tmpdir(), `xs-parser-test-${process.pid}.xs`);
+		fs.writeFileSync(filePath, PackageWriter.write(largeFiles, { version: 0, compress: false }));
+		try {
+			const uri = vscode.Uri.file(filePath);
+			const info = await PackageParser.parse(uri);
+			assert.strictEqual(info.entries.length, 3);
+			assert.deepStrictEqual(info.diagnostics, []);
+
+			const data = await PackageParser.readEntry(uri, info, info.entries[1]);
+			assert.ok(Buffer.from(data).equals(files[1].data));
+		} finally {
+			fs.unlinkSync(filePath);
+		}
+	});
+});
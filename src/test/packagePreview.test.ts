@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { PackageParser } from '../package/packageParser';
+import { PackageWriter } from '../package/packageWriter';
+import { getPreviewKind, loadEntryPreview } from '../packageEditor/packagePreview';
+
+suite('Package Preview Test Suite', () => {
+	const image = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+	const files = [
+		{ relativePath: 'images/hero.png', data: image },
+		{ relativePath: 'sprites/hero.xssprite', data: Buffer.from(JSON.stringify({ image: '[game]/images/hero.png', sprites: {} })) },
+		{ relativePath: 'sprites/enemy.xssprite', data: Buffer.from(JSON.stringify({ image: '[game]/images/enemy.png', sprites: {} })) },
+		{ relativePath: 'shaders/blur.frag', data: Buffer.from('void main() {}\n') }
+	];
+	const filePath = path.join(os.tmpdir(), `xs-preview-test-${process.pid}.xs`);
+	const uri = vscode.Uri.file(filePath);
+
+	suiteSetup(() => {
+		fs.writeFileSync(filePath, PackageWriter.write(files, { version: 0, compress: true }));
+	});
+
+	suiteTeardown(() => {
+		fs.unlinkSync(filePath);
+	});
+
+	test('Picks a preview kind from the extension', () => {
+		assert.strictEqual(getPreviewKind('a/b.PNG'), 'image');
+		assert.strictEqual(getPreviewKind('music.ogg'), 'audio');
+		assert.strictEqual(getPreviewKind('walk.xsanim'), 'animation');
+		assert.strictEqual(getPreviewKind('shaders/blur.frag'), 'shader');
+		assert.strictEqual(getPreviewKind('game.wren'), 'none');
+	});
+
+	test('Reads the sprite sheet of an asset from the package', async () => {
+		const info = await PackageParser.parse(uri);
+		const preview = await loadEntryPreview(uri, info, info.entries[1]);
+
+		assert.strictEqual(preview.kind, 'sprite');
+		assert.strictEqual(preview.src, `data:image/png;base64,${image.toString('base64')}`);
+		assert.strictEqual(preview.message, undefined);
+	});
+
+	test('Reports a sprite sheet that is not in the package', async () => {
+		const info = await PackageParser.parse(uri);
+		const preview = await loadEntryPreview(uri, info, info.entries[2]);
+
+		assert.strictEqual(preview.src, undefined);
+		assert.match(preview.message || '', /not in the package/);
+	});
+
+	test('Reads shader source', async () => {
+		const info = await PackageParser.parse(uri);
+		const preview = await loadEntryPreview(uri, info, info.entries[3]);
+
+		assert.strictEqual(preview.text, files[3].data.toString());
+		assert.strictEqual(preview.truncated, false);
+	});
+});
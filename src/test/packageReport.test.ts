@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { PackageParser } from '../package/packageParser';
+import { PackageWriter } from '../package/packageWriter';
+import { createSizeReport, formatReportMarkdown, parseBudget, parseSize, summarizePackage } from '../package/packageReport';
+
+suite('Package Report Test Suite', () => {
+	const files = [
+		{ relativePath: 'game.wren', data: Buffer.alloc(100) },
+		{ relativePath: 'audio/theme.ogg', data: Buffer.alloc(3000) },
+		{ relativePath: 'audio/jump.wav', data: Buffer.alloc(500) },
+		{ relativePath: 'images/hero.png', data: Buffer.alloc(1000) }
+	];
+	const info = PackageParser.parseBuffer(PackageWriter.write(files, { version: 0, compress: false }));
+
+	test('Parses sizes with units', () => {
+		assert.strictEqual(parseSize(1234), 1234);
+		assert.strictEqual(parseSize('512KB'), 512 * 1024);
+		assert.strictEqual(parseSize('1.5 mb'), 1.5 * 1024 * 1024);
+		assert.throws(() => parseSize('lots'), /Invalid size/);
+	});
+
+	test('Groups entries by top-level folder and extension', () => {
+		const summary = summarizePackage(info);
+		assert.strictEqual(summary.files, 4);
+		assert.strictEqual(summary.packed, 4600);
+		assert.deepStrictEqual(summary.folders.map(g => [g.name, g.files, g.packed]), [
+			['audio/', 2, 3500],
+			['images/', 1, 1000],
+			['(root)', 1, 100]
+		]);
+		assert.deepStrictEqual(summary.extensions.map(g => g.name), ['.ogg', '.png', '.wav', '.wren']);
+	});
+
+	test('Reports budget violations', () => {
+		const budget = parseBudget({ total: 4000, entry: '2KB', folders: { audio: 4000, images: 500 }, extensions: { WAV: 100 } });
+		assert.deepStrictEqual(Object.keys(budget.folders || {}), ['audio/', 'images/']);
+
+		const report = createSizeReport('game.xs', info, budget);
+		assert.deepStrictEqual(report.violations.map(v => [v.scope, v.name]), [
+			['total', 'package'],
+			['folder', 'images/'],
+			['extension', '.wav'],
+			['entry', 'audio/theme.ogg']
+		]);
+		assert.strictEqual(report.largestEntries[0].path, 'audio/theme.ogg');
+	});
+
+	test('Writes a Markdown report', () => {
+		const markdown = formatReportMarkdown(createSizeReport('game.xs', info, { total: 10000 }));
+		assert.match(markdown, /^# Package size report: game\.xs/);
+		assert.match(markdown, /All size budgets are met/);
+		assert.match(markdown, /\| `audio\/` \| 2 \|/);
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { PackageParser, decodePackageVersion, encodePackageVersion } from '../package/packageParser';
+import { PackageWriter } from '../package/packageWriter';
+
+suite('Package Writer Test Suite', () => {
+	const files = [
+		{ relativePath: 'project.json', data: Buffer.from('{ "Main": "game.wren" }') },
+		{ relativePath: 'game.wren', data: Buffer.from('class Game {\n'.repeat(100)) },
+		{ relativePath: 'images\\empty.png', data: Buffer.alloc(0) },
+		{ relativePath: 'audio/noise.wav', data: Buffer.from(Array.from({ length: 64 }, (_, i) => (i * 97) % 256)) }
+	];
+
+	test('Round-trips entries through the parser', () => {
+		const version = encodePackageVersion('25.42');
+		const buffer = PackageWriter.write(files, { version, compress: true });
+		const info = PackageParser.parseBuffer(buffer);
+
+		assert.strictEqual(info.version, version);
+		assert.strictEqual(info.versionString, '25.42');
+		assert.deepStrictEqual(info.entries.map(e => e.relativePath), ['project.json', 'game.wren', 'images/empty.png', 'audio/noise.wav']);
+
+		info.entries.forEach((entry, i) => {
+			assert.strictEqual(entry.uncompressedSize, BigInt(files[i].data.length));
+			const data = PackageParser.readEntryFromBuffer(buffer, info, entry);
+			assert.ok(Buffer.from(data).equals(files[i].data), `${entry.relativePath} contents differ`);
+		});
+	});
+
+	test('Only compresses entries that get smaller', () => {
+		const buffer = PackageWriter.write(files, { version: 0, compress: true });
+		const info = PackageParser.parseBuffer(buffer);
+		const byPath = new Map(info.entries.map(e => [e.relativePath, e]));
+
+		assert.strictEqual(byPath.get('game.wren')?.isCompressed, true);
+		assert.ok(byPath.get('game.wren')!.dataLength < byPath.get('game.wren')!.uncompressedSize);
+		assert.strictEqual(byPath.get('images/empty.png')?.isCompressed, false);
+	});
+
+	test('Stores entries uncompressed when compression is off', () => {
+		const buffer = PackageWriter.write(files, { version: 0, compress: false });
+		const info = PackageParser.parseBuffer(buffer);
+
+		assert.ok(info.entries.every(e => !e.isCompressed && e.dataLength === e.uncompressedSize));
+	});
+
+	test('Encodes versions in YY.BuildNumber format', () => {
+		assert.strictEqual(decodePackageVersion(encodePackageVersion('26.1234')), '26.1234');
+		assert.throws(() => encodePackageVersion('latest'));
+		assert.throws(() => encodePackageVersion('26.70000'));
+	});
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { parseProjectJson } from '../projects';
+import { validateProjectJson } from '../projectValidation';
+
+suite('Project Validation Test Suite', () => {
+	test('Reads Main or the reason a project.json is not an xs project', () => {
+		assert.deepStrictEqual(parseProjectJson('{ "Main": "[game]/game.wren" }'), { main: '[game]/game.wren' });
+		assert.deepStrictEqual(parseProjectJson('{ "Title": "Demo" }'), { problem: 'has no "Main" script' });
+		assert.deepStrictEqual(parseProjectJson('{ "Main": 3 }'), { problem: '"Main" must be the path of a .wren script' });
+		assert.deepStrictEqual(parseProjectJson('[]'), { problem: 'is not a JSON object' });
+		assert.ok(parseProjectJson('{ "Main": ').problem?.startsWith('is not valid JSON'));
+		// Other tools' project.json files declare their own schema
+		assert.deepStrictEqual(parseProjectJson('{ "$schema": "../node_modules/nx/schemas/project-schema.json" }'), {});
+	});
+
+	test('Reports a missing Main, and paths that do not exist', async () => {
+		const files = ['scripts/game.wren', 'audio'];
+		const exists = async (relativePath: string) => files.includes(relativePath);
+		const problems = async (text: string) => (await validateProjectJson(text, exists)).map(problem =>
+			`${problem.severity} ${text.substring(problem.start, problem.end)}: ${problem.message}`);
+
+		assert.deepStrictEqual(await problems('{ "Main": "[game]/scripts/game.wren", "PackageBudget": { "folders": { "audio/": "8MB" } } }'), []);
+		assert.deepStrictEqual(await problems('{\n  "Main": "game.wren",\n  "PackageBudget": { "folders": { "/music": 100, "audio": 5 } }\n}'), [
+			'error "game.wren": Main script "game.wren" does not exist',
+			'warning "/music": Folder "/music" does not exist in the project'
+		]);
+		assert.deepStrictEqual(await problems('{ "Title": "Demo" }'), ['error {: Missing "Main": the Wren script the engine starts, e.g. "game.wren"']);
+		// Syntax and type errors are reported by the schema
+		assert.deepStrictEqual(await problems('{ "Main": 3 }'), []);
+		assert.deepStrictEqual(await problems('{ "Main": '), []);
+	});
+});
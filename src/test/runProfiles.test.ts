@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { resolveRunOptions } from '../runProfiles';
+
+suite('Run Profiles Test Suite', () => {
+	const config = (settings: { [key: string]: any }) => ({
+		get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue
+	}) as unknown as vscode.WorkspaceConfiguration;
+
+	test('Uses the profile and xs.workingDirectory', () => {
+		const options = resolveRunOptions(config({ workingDirectory: '${workspaceFolder}/bin' }), '/games/demo', {
+			name: 'fullscreen',
+			args: ['--fullscreen', '--scene=${workspaceFolder}/scenes/title.json'],
+			env: { XS_LOG: 'debug' }
+		});
+		assert.deepStrictEqual(options, {
+			args: ['--fullscreen', '--scene=/games/demo/scenes/title.json'],
+			env: { XS_LOG: 'debug' },
+			cwd: '/games/demo/bin'
+		});
+	});
+
+	test('Launch configuration overrides replace args and cwd and extend env', () => {
+		const options = resolveRunOptions(config({}), '/games/demo', {
+			name: 'windowed',
+			args: ['--windowed'],
+			env: { XS_LOG: 'debug', XS_SCALE: '2' },
+			cwd: '/tmp'
+		}, { args: ['--scene=arena'], env: { XS_SCALE: '3' }, cwd: '/games/demo/run' });
+		assert.deepStrictEqual(options, {
+			args: ['--scene=arena'],
+			env: { XS_LOG: 'debug', XS_SCALE: '3' },
+			cwd: '/games/demo/run'
+		});
+	});
+
+	test('Defaults to the project folder without a profile', () => {
+		assert.deepStrictEqual(resolveRunOptions(config({}), '/games/demo'), { args: [], env: {}, cwd: '/games/demo' });
+	});
+});
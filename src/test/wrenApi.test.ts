@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatApiSignature, parseWrenApi } from '../wren/wrenApi';
+
+suite('Wren API Test Suite', () => {
+	test('Infers member kinds and formats signatures', () => {
+		const api = parseWrenApi(JSON.stringify({
+			modules: [{
+				name: 'xs',
+				classes: [{
+					name: 'Input',
+					members: [
+						{ name: 'getButton', static: true, params: [{ name: 'button', type: 'Num' }, 'pad'], returns: 'Bool' },
+						{ name: 'keySpace', static: true, returns: 'Num' }
+					]
+				}, {
+					name: 'Vec2',
+					members: [
+						{ name: 'new', kind: 'constructor', params: ['x', 'y'] },
+						{ name: 'x', kind: 'setter', params: [{ name: 'value', type: 'Num' }] }
+					]
+				}]
+			}]
+		}));
+		const [input, vec2] = api.modules[0].classes;
+		assert.deepStrictEqual(input.members.map(member => [member.kind, member.isStatic]), [['method', true], ['getter', true]]);
+		assert.deepStrictEqual(vec2.members.map(member => [member.kind, member.isStatic]), [['constructor', true], ['setter', false]]);
+		assert.deepStrictEqual(
+			[...input.members.map(member => formatApiSignature('Input', member)), ...vec2.members.map(member => formatApiSignature('Vec2', member))],
+			['static Input.getButton(button: Num, pad): Bool', 'static Input.keySpace: Num', 'construct Vec2.new(x, y)', 'Vec2.x=(value: Num)']
+		);
+	});
+
+	test('Rejects descriptions without names', () => {
+		assert.throws(() => parseWrenApi('{}'), /"modules" must be an array/);
+		assert.throws(() => parseWrenApi('{ "modules": [{ "name": "xs", "classes": [{ "members": [] }] }] }'), /class in xs/);
+	});
+
+	test('The bundled description is valid', () => {
+		const api = parseWrenApi(fs.readFileSync(path.join(__dirname, '..', '..', 'api', 'xs-api.json'), 'utf8'));
+		assert.deepStrictEqual(api.modules.map(module => module.name), ['xs', 'xs/math', 'xs/core']);
+	});
+});
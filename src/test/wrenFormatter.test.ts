@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import { formatWren, formatWrenLines, WrenFormatOptions } from '../wren/wrenFormatter';
+
+suite('Wren Formatter Test Suite', () => {
+	const options: WrenFormatOptions = { indent: '    ', braceStyle: 'spaced', maxBlankLines: 1, blankLinesBetweenDefinitions: 1 };
+	const format = (lines: string[], overrides: Partial<WrenFormatOptions> = {}) =>
+		formatWren(lines.join('\n'), { ...options, ...overrides }).split('\n');
+
+	test('Indents blocks and normalizes spacing', () => {
+		const formatted = format([
+			'import "xs" for Input,Render',
+			'class Player is Entity{',
+			'#doc="The player"',
+			'construct new(x,y){',
+			'_pos=Vec2.new(x,y)',
+			'_items=[',
+			'"sword",{"hp":10}',
+			']',
+			'}',
+			'  pos {_pos}',
+			'    pos=(value) {_pos=value}',
+			'static -(a){-a.x*2}',
+			'update(dt){',
+			'if(Input.getKey(32)&&!_dead){_pos.x=_pos.x+dt* -1} else {',
+			'for(i in 0...3)_items.each{ |item,n|System.print("%( item ) at %(i..n)") }',
+			'}',
+			'var speed=_fast?2:1',
+			'return _items[0].count  // remaining',
+			'}',
+			'}'
+		]);
+		assert.deepStrictEqual(formatted, [
+			'import "xs" for Input, Render',
+			'',
+			'class Player is Entity {',
+			'    #doc = "The player"',
+			'    construct new(x, y) {',
+			'        _pos = Vec2.new(x, y)',
+			'        _items = [',
+			'            "sword", { "hp": 10 }',
+			'        ]',
+			'    }',
+			'',
+			'    pos { _pos }',
+			'    pos=(value) { _pos = value }',
+			'    static -(a) { -a.x * 2 }',
+			'',
+			'    update(dt) {',
+			'        if (Input.getKey(32) && !_dead) { _pos.x = _pos.x + dt * -1 } else {',
+			'            for (i in 0...3) _items.each {|item, n| System.print("%(item) at %(i..n)") }',
+			'        }',
+			'        var speed = _fast ? 2 : 1',
+			'        return _items[0].count  // remaining',
+			'    }',
+			'}'
+		]);
+		// Formatting again changes nothing
+		assert.deepStrictEqual(format(formatted), formatted);
+	});
+
+	test('Applies the brace style and blank line rules', () => {
+		const source = [
+			'',
+			'class A {',
+			'',
+			'  a { 1 }',
+			'  b { 2 }',
+			'  // Runs the thing',
+			'  run() {',
+			'',
+			'',
+			'',
+			'    var x = {"k": 1}',
+			'',
+			'  }',
+			'}',
+			'class B {}',
+			''
+		];
+		assert.deepStrictEqual(format(source, { braceStyle: 'compact', maxBlankLines: 0, blankLinesBetweenDefinitions: 2 }), [
+			'class A {',
+			'    a {1}',
+			'    b {2}',
+			'',
+			'',
+			'    // Runs the thing',
+			'    run() {',
+			'        var x = {"k": 1}',
+			'    }',
+			'}',
+			'',
+			'',
+			'class B {}',
+			''
+		]);
+		assert.deepStrictEqual(format(['x.each {|a|   a }', '', '', '', 'var y = 1'], { indent: '\t', braceStyle: 'preserve' }), [
+			'x.each {|a| a }',
+			'',
+			'var y = 1'
+		]);
+	});
+
+	test('Keeps strings, comments and method chains intact', () => {
+		assert.deepStrictEqual(format([
+			'var text = """',
+			'  raw   text',
+			'"""',
+			'/* a',
+			'     b */',
+			'var list = items',
+			'.where {|i| i  >  0 }',
+			'var sum = 1 +',
+			'2',
+			'System.print("a  %(1+2)  b")'
+		]), [
+			'var text = """',
+			'  raw   text',
+			'"""',
+			'/* a',
+			'     b */',
+			'var list = items',
+			'    .where {|i| i > 0 }',
+			'var sum = 1 +',
+			'    2',
+			'System.print("a  %(1 + 2)  b")'
+		]);
+		// Broken scripts are not formatted
+		assert.strictEqual(formatWrenLines('System.print("hp', options), undefined);
+		assert.strictEqual(formatWren('System.print("hp', options), 'System.print("hp');
+	});
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { lintWren, WrenLintContext } from '../wren/wrenLint';
+import { parseWren, WrenModule } from '../wren/wrenParser';
+
+suite('Wren Lint Test Suite', () => {
+	const scripts: { [module: string]: string } = {
+		player: 'import "xs" for Input\nvar Speed = 4\nclass Player {}'
+	};
+	const context: WrenLintContext = {
+		resolveModule: (module: string): WrenModule | undefined => module in scripts ? parseWren(scripts[module]) : undefined
+	};
+	const lint = (source: string) => lintWren(parseWren(source), context).map(problem =>
+		`${problem.severity} ${source.substring(0, problem.span.start).split('\n').length}: ${problem.message}`);
+
+	test('A valid script has no problems', () => {
+		assert.deepStrictEqual(lint([
+			'import "xs" for Input',
+			'import "player" for Player, Speed, Input as Keys',
+			'',
+			'class Game is Player {',
+			'    #doc = "The game"',
+			'    construct new(level) { _level = level }',
+			'    static update(dt) {',
+			'        var moved = Input.getKey(Input.keySpace) && Keys.keySpace > 0',
+			'        for (i in 0...Speed) {',
+			'            [1, 2].each {|n| System.print("%(n + i) %(dt)") }',
+			'        }',
+			'        render()',
+			'    }',
+			'    static render() {}',
+			'}',
+			'',
+			'if (true) {',
+			'    var local = Game.new(1)',
+			'    Game.update(local)',
+			'}'
+		].join('\n')), []);
+	});
+
+	test('Reports syntax errors', () => {
+		assert.deepStrictEqual(lint('class {\n}'), ['error 1: Expected a class name']);
+		assert.deepStrictEqual(lint('System.print("hp: %(1)'), ['error 1: \'(\' is never closed', 'error 1: Unterminated string']);
+		assert.deepStrictEqual(lint('/* /* */'), ['error 1: Unterminated block comment']);
+		assert.deepStrictEqual(lint('class Enemy {\n    = 3\n    update() {}\n}'), ['error 2: Expected a method definition']);
+		assert.deepStrictEqual(lint('class Enemy {\n    update()\n}'), ['error 2: Expected \'{\' to begin the body of update()']);
+		assert.deepStrictEqual(lint('var items = [1, 2)\n@'), ['error 1: Expected \']\' before \')\'', 'error 2: Unexpected character \'@\'']);
+	});
+
+	test('Reports unresolved imports, undefined variables and duplicates', () => {
+		assert.deepStrictEqual(lint([
+			'import "xs" for Input',
+			'import "enemies" for Boss',
+			'import "player" for Playr',
+			'class Game {',
+			'    static update(dt) {',
+			'        Input.getKey(1)',
+			'        System.print(score + Scroe)',
+			'    }',
+			'    static update(delta) {}',
+			'}',
+			'System.print(total)'
+		].join('\n')), [
+			'error 2: Cannot find module \'enemies\'',
+			'error 3: Module \'player\' does not define \'Playr\'',
+			'error 7: Undefined variable \'Scroe\'',
+			'error 9: Class Game already defines static update(_)',
+			'error 11: Undefined variable \'total\''
+		]);
+	});
+
+	test('Does not look for modules the engine provides in the project', () => {
+		assert.deepStrictEqual(lint([
+			'import "random" for Random',
+			'import "meta" for Meta',
+			'import "[shared]/scripts/tween" for Tween',
+			'System.print(Random.new().float() + Tween.ease(Meta))'
+		].join('\n')), []);
+	});
+});
@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { tokenize } from '../wren/wrenTokenizer';
+import { parseWren } from '../wren/wrenParser';
+import { getModuleName, resolveModulePath } from '../wren/wrenModules';
+
+suite('Wren Parser Test Suite', () => {
+	test('Tokenizes interpolations and nested comments', () => {
+		const tokens = tokenize('/* a /* b */ c */ System.print("x = %(point.x + (1)) done")');
+		assert.deepStrictEqual(tokens.map(token => [token.kind, token.text]), [
+			['comment', '/* a /* b */ c */'],
+			['name', 'System'],
+			['punctuation', '.'],
+			['name', 'print'],
+			['punctuation', '('],
+			['interpolation', '"x = %('],
+			['name', 'point'],
+			['punctuation', '.'],
+			['name', 'x'],
+			['punctuation', '+'],
+			['punctuation', '('],
+			['number', '1'],
+			['punctuation', ')'],
+			['string', ') done"'],
+			['punctuation', ')']
+		]);
+	});
+
+	test('Parses imports, classes, members and module variables', () => {
+		const source = [
+			'import "xs" for Render, Input as Keys',
+			'import "enemies/boss" for Boss',
+			'',
+			'var Speed = 10',
+			'',
+			'class Player is Component {',
+			'    #doc = "the player"',
+			'    construct new(x, y) { _pos = Vec2.new(x, y) }',
+			'    static instance { __instance }',
+			'    position { _pos }',
+			'    position=(value) { _pos = value }',
+			'    update(dt) {',
+			'        if (Input.down) { var step = dt * Speed }',
+			'    }',
+			'    [index] { _slots[index] }',
+			'    [index]=(value) { _slots[index] = value }',
+			'    -(other) { _pos - other }',
+			'    foreign static count(type)',
+			'}',
+			'',
+			'foreign class Native {}'
+		].join('\n');
+		const module = parseWren(source);
+
+		assert.deepStrictEqual(module.imports.map(declaration => ({ module: declaration.module, names: declaration.names.map(name => [name.name, name.alias]) })), [
+			{ module: 'xs', names: [['Render', 'Render'], ['Input', 'Keys']] },
+			{ module: 'enemies/boss', names: [['Boss', 'Boss']] }
+		]);
+		assert.deepStrictEqual(module.variables.map(variable => variable.name), ['Speed']);
+		assert.deepStrictEqual(module.classes.map(declaration => [declaration.name, declaration.superclass, declaration.isForeign]), [
+			['Player', 'Component', false],
+			['Native', undefined, true]
+		]);
+
+		const player = module.classes[0];
+		assert.deepStrictEqual(player.members.map(member => [member.kind, member.signature, member.isStatic, member.isForeign]), [
+			['constructor', 'new(_,_)', false, false],
+			['getter', 'instance', true, false],
+			['getter', 'position', false, false],
+			['setter', 'position=(_)', false, false],
+			['method', 'update(_)', false, false],
+			['subscript', '[_]', false, false],
+			['subscriptSetter', '[_]=(_)', false, false],
+			['operator', '-(_)', false, false],
+			['method', 'count(_)', true, true]
+		]);
+		assert.strictEqual(source.substring(player.members[4].nameSpan.start, player.members[4].nameSpan.end), 'update');
+		assert.strictEqual(source.substring(player.span.start, player.span.end).split('\n').length, 14);
+	});
+
+	test('Resolves modules like the engine', () => {
+		const context = { projectFolder: '/games/demo', main: '[game]/scripts/game.wren', importer: '/games/demo/scripts/enemies/boss.wren' };
+		assert.strictEqual(resolveModulePath('xs/core', context), undefined);
+		assert.strictEqual(resolveModulePath('[shared]/scripts/tween', context), undefined);
+		assert.strictEqual(resolveModulePath('player', context), path.join('/games/demo/scripts/player.wren'));
+		assert.strictEqual(resolveModulePath('[game]/shared/math', context), path.join('/games/demo/shared/math.wren'));
+		assert.strictEqual(resolveModulePath('./minion', context), path.join('/games/demo/scripts/enemies/minion.wren'));
+		assert.strictEqual(getModuleName('/games/demo/scripts/enemies/boss.wren', context), 'enemies/boss');
+		assert.strictEqual(getModuleName('/games/demo/shared/math.wren', context), '[game]/shared/math');
+	});
+});
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProjectEngine } from '../engineManager';
+import { getWorkingDirectory, resolveExecutablePath } from '../engine';
+import { WrenScript } from './wrenIndex';
+import { WrenModule } from './wrenParser';
+
+// Description of the engine's built-in Wren modules, read from xs-api.json:
+//   { "engineVersion": "24", "modules": [{ "name": "xs", "classes": [{ "name": "Input", "members": [
+//       { "name": "getKey", "static": true, "params": [{ "name": "key", "type": "Num" }], "returns": "Bool", "doc": "..." }
+//   ] }] }] }
+// Members without "kind" are methods when they have "params" and getters otherwise
+
+export const API_FILE_NAME = 'xs-api.json';
+
+export interface WrenApiParameter {
+    name: string;
+    type?: string;
+    doc?: string;
+}
+
+export interface WrenApiMember {
+    name: string;
+    kind: 'method' | 'getter' | 'setter' | 'constructor';
+    isStatic: boolean;
+    params: WrenApiParameter[];
+    returns?: string;
+    doc?: string;
+}
+
+export interface WrenApiClass {
+    name: string;
+    doc?: string;
+    members: WrenApiMember[];
+}
+
+export interface WrenApiModule {
+    name: string;
+    doc?: string;
+    classes: WrenApiClass[];
+}
+
+export interface WrenApi {
+    engineVersion?: string;
+    modules: WrenApiModule[];
+}
+
+export function parseWrenApi(text: string): WrenApi {
+    const data = JSON.parse(text);
+    if (!data || !Array.isArray(data.modules)) {
+        throw new Error('"modules" must be an array');
+    }
+    return {
+        engineVersion: data.engineVersion !== undefined ? String(data.engineVersion) : undefined,
+        modules: data.modules.map((module: any) => ({
+            name: requireName(module, 'module'),
+            doc: module.doc,
+            classes: (module.classes ?? []).map((apiClass: any) => ({
+                name: requireName(apiClass, `class in ${module.name}`),
+                doc: apiClass.doc,
+                members: (apiClass.members ?? []).map((member: any): WrenApiMember => ({
+                    name: requireName(member, `member of ${apiClass.name}`),
+                    kind: member.kind ?? (Array.isArray(member.params) ? 'method' : 'getter'),
+                    isStatic: !!member.static || member.kind === 'constructor',
+                    params: (member.params ?? []).map((param: any) => typeof param === 'string' ? { name: param } : param),
+                    returns: member.returns,
+                    doc: member.doc
+                }))
+            }))
+        }))
+    };
+}
+
+function requireName(item: any, description: string): string {
+    if (!item || typeof item.name !== 'string' || !item.name) {
+        throw new Error(`A ${description} has no "name"`);
+    }
+    return item.name;
+}
+
+// The signature shown in completions, hovers and signature help, e.g.
+// "Input.getButton(button: Num, pad: Num): Bool" or "Vec2.x=(value: Num)"
+export function formatApiSignature(className: string, member: WrenApiMember): string {
+    const params = member.params.map(param => param.type ? `${param.name}: ${param.type}` : param.name).join(', ');
+    const returns = member.returns ? `: ${member.returns}` : '';
+    const prefix = member.kind === 'constructor' ? 'construct ' : member.isStatic ? 'static ' : '';
+    switch (member.kind) {
+        case 'getter':
+            return `${prefix}${className}.${member.name}${returns}`;
+        case 'setter':
+            return `${prefix}${className}.${member.name}=(${params})`;
+        default:
+            return `${prefix}${className}.${member.name}(${params})${returns}`;
+    }
+}
+
+// The engine class a name refers to in a module, through its imports of engine modules
+export function findApiClass(api: WrenApi, module: WrenModule, name: string): { module: WrenApiModule; apiClass: WrenApiClass } | undefined {
+    for (const declarationImport of module.imports) {
+        const apiModule = api.modules.find(candidate => candidate.name === declarationImport.module);
+        const imported = apiModule && declarationImport.names.find(candidate => candidate.alias === name);
+        const apiClass = imported && apiModule.classes.find(candidate => candidate.name === imported.name);
+        if (apiModule && apiClass) {
+            return { module: apiModule, apiClass };
+        }
+    }
+    return undefined;
+}
+
+// Where an engine keeps its API description: resources/ next to the executable,
+// or resources/ in the working directory for development builds
+export async function getEngineApiPaths(enginePath: string, workingDirectory: string): Promise<string[]> {
+    const paths: string[] = [];
+    if (path.isAbsolute(enginePath)) {
+        const executable = await resolveExecutablePath(enginePath);
+        paths.push(path.join(path.dirname(executable), 'resources', API_FILE_NAME));
+        if (executable !== enginePath) {
+            // Inside a macOS .app bundle
+            paths.push(path.join(path.dirname(enginePath), 'resources', API_FILE_NAME));
+        }
+    }
+    paths.push(path.join(workingDirectory, 'resources', API_FILE_NAME));
+    return paths;
+}
+
+// The API of the engine the active project uses; falls back to the (partial) description
+// shipped with the extension when the engine has none
+export class WrenApiProvider implements vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    // Fires when another engine's API is loaded
+    readonly onDidChange = this.changeEmitter.event;
+
+    private current: WrenApi = { modules: [] };
+    private currentKey: string | undefined;
+    private source: string | undefined;
+
+    constructor(private readonly extensionUri: vscode.Uri) {}
+
+    get api(): WrenApi {
+        return this.current;
+    }
+
+    // The file the API was loaded from
+    get sourcePath(): string | undefined {
+        return this.source;
+    }
+
+    async setEngine(engine: ProjectEngine, projectFolder: vscode.Uri | undefined) {
+        const config = vscode.workspace.getConfiguration('xs', projectFolder);
+        const workingDirectory = getWorkingDirectory(config, projectFolder?.fsPath ?? '');
+        const key = `${engine.path}@${engine.version}@${workingDirectory}`;
+        if (key === this.currentKey) {
+            return;
+        }
+        this.currentKey = key;
+
+        const candidates = [
+            ...await getEngineApiPaths(engine.path, workingDirectory),
+            vscode.Uri.joinPath(this.extensionUri, 'api', API_FILE_NAME).fsPath
+        ];
+        for (const candidate of candidates) {
+            let text: string;
+            try {
+                text = (await vscode.workspace.fs.readFile(vscode.Uri.file(candidate))).toString();
+            } catch {
+                continue;
+            }
+            try {
+                const api = parseWrenApi(text);
+                if (key !== this.currentKey) {
+                    // Another engine was selected while reading
+                    return;
+                }
+                this.current = api;
+                this.source = candidate;
+                this.changeEmitter.fire();
+                return;
+            } catch (error) {
+                vscode.window.showWarningMessage(`Cannot load the Wren API from ${candidate}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+    }
+
+    findModule(name: string): WrenApiModule | undefined {
+        return this.current.modules.find(module => module.name === name);
+    }
+
+    // The engine class a name refers to in a script, through its imports of engine modules
+    findClass(script: WrenScript, name: string): { module: WrenApiModule; apiClass: WrenApiClass } | undefined {
+        return findApiClass(this.current, script.module, name);
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,272 @@
+import * as vscode from 'vscode';
+import { isKeyword, isPunctuation, previousToken, WrenToken } from './wrenTokenizer';
+import { findTokenAt } from './wrenParser';
+import { WrenIndex, WrenScript } from './wrenIndex';
+import { formatApiSignature, WrenApiClass, WrenApiMember, WrenApiModule, WrenApiProvider } from './wrenApi';
+
+const SELECTOR: vscode.DocumentSelector = { language: 'wren' };
+
+// Completions, hovers and signature help for the engine's built-in Wren modules
+export class WrenApiLanguageProvider implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.SignatureHelpProvider {
+    static register(api: WrenApiProvider, index: WrenIndex): vscode.Disposable {
+        const provider = new WrenApiLanguageProvider(api, index);
+        return vscode.Disposable.from(
+            vscode.languages.registerCompletionItemProvider(SELECTOR, provider, '.', '"'),
+            vscode.languages.registerHoverProvider(SELECTOR, provider),
+            vscode.languages.registerSignatureHelpProvider(SELECTOR, provider, '(', ',')
+        );
+    }
+
+    constructor(private readonly api: WrenApiProvider, private readonly index: WrenIndex) {}
+
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+        const script = this.index.parseDocument(document);
+        const offset = document.offsetAt(position);
+        const tokens = script.module.tokens;
+        let current = tokens.length;
+        while (current > 0 && tokens[current - 1].start >= offset) {
+            current--;
+        }
+        // The token being typed, if the cursor is inside or right after it
+        const typing = current > 0 && tokens[current - 1].end >= offset ? tokens[current - 1] : undefined;
+        const before = typing && typing.kind !== 'punctuation' ? previousToken(tokens, current - 1) : typing;
+
+        // import "|
+        if (typing && (typing.kind === 'error' || (typing.kind === 'string' && offset < typing.end)) && typing.text.startsWith('"') &&
+            isKeyword(previousToken(tokens, current - 1), 'import')) {
+            const range = new vscode.Range(document.positionAt(typing.start + 1), position);
+            return this.api.api.modules.map(module => {
+                const item = new vscode.CompletionItem(module.name, vscode.CompletionItemKind.Module);
+                item.range = range;
+                item.documentation = module.doc && new vscode.MarkdownString(module.doc);
+                return item;
+            });
+        }
+        if (typing && (typing.kind === 'comment' || typing.kind === 'string' || typing.kind === 'interpolation' || typing.kind === 'error')) {
+            return undefined;
+        }
+
+        // import "module" for A, |
+        const importedModule = findImportListModule(tokens, typing?.kind === 'name' ? current - 1 : current);
+        if (importedModule !== undefined) {
+            return this.api.findModule(importedModule)?.classes.map(apiClass => createClassItem(apiClass));
+        }
+
+        // Class.|
+        if (before && isPunctuation(before, '.')) {
+            const receiver = previousToken(tokens, tokens.indexOf(before));
+            const found = receiver?.kind === 'name' && this.api.findClass(script, receiver.text);
+            if (!found) {
+                return undefined;
+            }
+            return found.apiClass.members
+                .filter(member => member.isStatic && member.kind !== 'setter')
+                .map(member => createMemberItem(found.apiClass, member));
+        }
+
+        // Engine classes, imported on completion when the script does not import them yet
+        if (typing && typing.kind !== 'name') {
+            return undefined;
+        }
+        const items: vscode.CompletionItem[] = [];
+        for (const module of this.api.api.modules) {
+            for (const apiClass of module.classes) {
+                const item = createClassItem(apiClass);
+                if (!this.api.findClass(script, apiClass.name)) {
+                    item.detail = `import "${module.name}" for ${apiClass.name}`;
+                    item.additionalTextEdits = [createImportEdit(document, script, module, apiClass)];
+                    item.sortText = `~${apiClass.name}`;
+                }
+                items.push(item);
+            }
+        }
+        return items;
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const script = this.index.parseDocument(document);
+        const token = findTokenAt(script.module, document.offsetAt(position));
+        if (!token) {
+            return undefined;
+        }
+        const range = new vscode.Range(document.positionAt(token.start), document.positionAt(token.end));
+
+        if (token.kind === 'string') {
+            const declarationImport = script.module.imports.find(candidate => candidate.moduleSpan.start === token.start);
+            const module = declarationImport && this.api.findModule(declarationImport.module);
+            return module ? new vscode.Hover(createModuleDocumentation(module), range) : undefined;
+        }
+        if (token.kind !== 'name') {
+            return undefined;
+        }
+
+        const tokens = script.module.tokens;
+        const dot = previousToken(tokens, tokens.indexOf(token));
+        if (dot && isPunctuation(dot, '.')) {
+            const receiver = previousToken(tokens, tokens.indexOf(dot));
+            const found = receiver?.kind === 'name' && this.api.findClass(script, receiver.text);
+            const members = found ? found.apiClass.members.filter(member => member.name === token.text && member.isStatic) : [];
+            if (!found || members.length === 0) {
+                return undefined;
+            }
+            const markdown = new vscode.MarkdownString();
+            for (const member of members) {
+                markdown.appendCodeblock(formatApiSignature(found.apiClass.name, member), 'wren');
+                if (member.doc) {
+                    markdown.appendMarkdown(member.doc + '\n\n');
+                }
+            }
+            return new vscode.Hover(markdown, range);
+        }
+
+        const found = this.api.findClass(script, token.text);
+        if (!found) {
+            return undefined;
+        }
+        const markdown = new vscode.MarkdownString();
+        markdown.appendCodeblock(`import "${found.module.name}" for ${found.apiClass.name}`, 'wren');
+        if (found.apiClass.doc) {
+            markdown.appendMarkdown(found.apiClass.doc);
+        }
+        return new vscode.Hover(markdown, range);
+    }
+
+    provideSignatureHelp(document: vscode.TextDocument, position: vscode.Position): vscode.SignatureHelp | undefined {
+        const script = this.index.parseDocument(document);
+        const offset = document.offsetAt(position);
+        const tokens = script.module.tokens;
+
+        // Find the open parenthesis of the call around the cursor, counting the arguments before it
+        let depth = 0;
+        let activeParameter = 0;
+        let open = -1;
+        for (let i = tokens.length - 1; i >= 0 && open < 0; i--) {
+            const token = tokens[i];
+            if (token.start >= offset || token.kind !== 'punctuation') {
+                continue;
+            }
+            if (token.text === ')' || token.text === ']' || token.text === '}') {
+                depth++;
+            } else if (token.text === '(' || token.text === '[' || token.text === '{') {
+                if (depth === 0) {
+                    if (token.text !== '(') {
+                        return undefined;
+                    }
+                    open = i;
+                } else {
+                    depth--;
+                }
+            } else if (token.text === ',' && depth === 0) {
+                activeParameter++;
+            }
+        }
+        const name = open > 0 ? previousToken(tokens, open) : undefined;
+        const dot = name?.kind === 'name' ? previousToken(tokens, tokens.indexOf(name)) : undefined;
+        const receiver = dot && isPunctuation(dot, '.') ? previousToken(tokens, tokens.indexOf(dot)) : undefined;
+        const found = receiver?.kind === 'name' && this.api.findClass(script, receiver.text);
+        if (!found || !name) {
+            return undefined;
+        }
+        const overloads = found.apiClass.members.filter(member =>
+            member.name === name.text && member.isStatic && (member.kind === 'method' || member.kind === 'constructor'));
+        if (overloads.length === 0) {
+            return undefined;
+        }
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = overloads.map(member => createSignature(found.apiClass, member));
+        help.activeSignature = Math.max(0, overloads.findIndex(member => member.params.length > activeParameter));
+        help.activeParameter = activeParameter;
+        return help;
+    }
+}
+
+function createClassItem(apiClass: WrenApiClass): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(apiClass.name, vscode.CompletionItemKind.Class);
+    item.documentation = apiClass.doc && new vscode.MarkdownString(apiClass.doc);
+    return item;
+}
+
+function createMemberItem(apiClass: WrenApiClass, member: WrenApiMember): vscode.CompletionItem {
+    const params = member.params.map(param => param.name);
+    const isCall = member.kind === 'method' || member.kind === 'constructor';
+    const item = new vscode.CompletionItem(
+        { label: member.name, detail: isCall ? `(${params.join(', ')})` : undefined, description: member.returns },
+        member.kind === 'constructor' ? vscode.CompletionItemKind.Constructor
+            : isCall ? vscode.CompletionItemKind.Method : vscode.CompletionItemKind.Property
+    );
+    item.detail = formatApiSignature(apiClass.name, member);
+    item.documentation = member.doc && new vscode.MarkdownString(member.doc);
+    if (isCall) {
+        item.insertText = new vscode.SnippetString(
+            `${member.name}(${params.map((param, i) => `\${${i + 1}:${param}}`).join(', ')})`
+        );
+        if (params.length > 0) {
+            item.command = { title: 'Trigger Parameter Hints', command: 'editor.action.triggerParameterHints' };
+        }
+    }
+    return item;
+}
+
+function createSignature(apiClass: WrenApiClass, member: WrenApiMember): vscode.SignatureInformation {
+    const label = formatApiSignature(apiClass.name, member);
+    const signature = new vscode.SignatureInformation(label, member.doc && new vscode.MarkdownString(member.doc));
+    let searchFrom = label.indexOf('(');
+    signature.parameters = member.params.map(param => {
+        const text = param.type ? `${param.name}: ${param.type}` : param.name;
+        const start = label.indexOf(text, searchFrom);
+        searchFrom = start + text.length;
+        return new vscode.ParameterInformation([start, start + text.length], param.doc);
+    });
+    return signature;
+}
+
+function createModuleDocumentation(module: WrenApiModule): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${module.name}**${module.doc ? ` — ${module.doc}` : ''}\n\n`);
+    markdown.appendMarkdown(module.classes.map(apiClass => `\`${apiClass.name}\``).join(', '));
+    return markdown;
+}
+
+// Adds the class to an existing import of its module, or a new import after the last one
+function createImportEdit(document: vscode.TextDocument, script: WrenScript, module: WrenApiModule, apiClass: WrenApiClass): vscode.TextEdit {
+    const existing = script.module.imports.find(declarationImport => declarationImport.module === module.name);
+    if (existing && existing.names.length > 0) {
+        return vscode.TextEdit.insert(document.positionAt(existing.span.end), `, ${apiClass.name}`);
+    }
+    const statement = `import "${module.name}" for ${apiClass.name}`;
+    const last = script.module.imports[script.module.imports.length - 1];
+    if (last) {
+        return vscode.TextEdit.insert(document.lineAt(document.positionAt(last.span.end).line).range.end, `\n${statement}`);
+    }
+    return vscode.TextEdit.insert(new vscode.Position(0, 0), `${statement}\n\n`);
+}
+
+// The module of the import statement whose "for" list the token at index belongs to.
+// The list continues on the next line only after a comma
+function findImportListModule(tokens: WrenToken[], index: number): string | undefined {
+    for (let i = index - 1; i >= 0; i--) {
+        const token = tokens[i];
+        if (token.kind === 'comment') {
+            continue;
+        }
+        if (token.kind === 'newline') {
+            if (!isPunctuation(previousToken(tokens, i), ',')) {
+                return undefined;
+            }
+            continue;
+        }
+        if (isKeyword(token, 'for')) {
+            const module = previousToken(tokens, i);
+            if (module?.kind !== 'string' || !isKeyword(previousToken(tokens, tokens.indexOf(module)), 'import')) {
+                return undefined;
+            }
+            return module.text.replace(/^"|"$/g, '');
+        }
+        if (token.kind !== 'name' && !isPunctuation(token, ',') && !isKeyword(token, 'as')) {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { WrenIndex } from './wrenIndex';
+import { WrenModule } from './wrenParser';
+import { isBuiltInModule } from './wrenModules';
+import { lintWren } from './wrenLint';
+
+// Scripts of packages (xs-package:) or other revisions (git:) are not the project's to fix
+const LINTED_SCHEMES = ['file', 'untitled'];
+
+// Lints Wren scripts when they are opened and saved, reporting the problems in the Problems panel
+export class WrenDiagnostics implements vscode.Disposable {
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('wren');
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly index: WrenIndex) {
+        this.disposables.push(
+            this.diagnostics,
+            vscode.workspace.onDidOpenTextDocument(document => this.lint(document)),
+            // Saving a script can fix or break the scripts importing it
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (isLinted(document)) {
+                    this.lintOpenDocuments();
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('xs.lint.enabled')) {
+                    this.lintOpenDocuments();
+                }
+            })
+        );
+        this.lintOpenDocuments();
+    }
+
+    async lint(document: vscode.TextDocument) {
+        if (!isLinted(document)) {
+            return;
+        }
+        if (!vscode.workspace.getConfiguration('xs', document.uri).get<boolean>('lint.enabled', true)) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+
+        // Parse the imported scripts first; the linter itself is synchronous
+        const script = this.index.parseDocument(document);
+        const modules = new Map<string, WrenModule | undefined>();
+        for (const declarationImport of script.module.imports) {
+            if (!isBuiltInModule(declarationImport.module) && !modules.has(declarationImport.module)) {
+                const uri = this.index.resolveImport(document.uri, declarationImport.module);
+                modules.set(declarationImport.module, uri && (await this.index.getScript(uri))?.module);
+            }
+        }
+
+        const problems = lintWren(script.module, { resolveModule: module => modules.get(module) });
+        this.diagnostics.set(document.uri, problems.map(problem => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(problem.span.start), document.positionAt(problem.span.end)),
+                problem.message,
+                problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'wren';
+            return diagnostic;
+        }));
+    }
+
+    private lintOpenDocuments() {
+        vscode.workspace.textDocuments.forEach(document => this.lint(document));
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+function isLinted(document: vscode.TextDocument): boolean {
+    return document.languageId === 'wren' && LINTED_SCHEMES.includes(document.uri.scheme);
+}
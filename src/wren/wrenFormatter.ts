@@ -0,0 +1,363 @@
+import { parseWren, WrenModule } from './wrenParser';
+import { isPunctuation, LineMap, WrenToken } from './wrenTokenizer';
+
+// Formatter for Wren scripts. Newlines are significant in Wren (a method's "{" must stay on the
+// line of its signature, a one-line body returns its value), so lines are never joined or split:
+// only indentation, the spacing between the tokens of a line and blank lines change
+
+export interface WrenFormatOptions {
+    // One level of indentation, e.g. "\t" or "    "
+    indent: string;
+    // Spacing inside one-line blocks and maps: "{ x }" (spaced), "{x}" (compact), or as written (preserve)
+    braceStyle: 'spaced' | 'compact' | 'preserve';
+    // Consecutive blank lines kept
+    maxBlankLines: number;
+    // Blank lines before a class, and before a method when it or the previous one spans several lines
+    blankLinesBetweenDefinitions: number;
+}
+
+export interface WrenFormattedLine {
+    // The new text of the line, or undefined when the (blank) line is removed
+    text: string | undefined;
+    // Blank lines to insert before the line
+    blankLinesBefore: number;
+}
+
+const BINARY_OPERATORS = new Set([
+    '=', '==', '!=', '<', '>', '<=', '>=', '+', '-', '*', '/', '%', '&&', '||', '&', '|', '^', '<<', '>>', '?', ':'
+]);
+const UNARY_OPERATORS = new Set(['-', '!', '~']);
+const OPENING_BRACKETS = new Set(['(', '[', '{']);
+const CLOSING_BRACKETS = new Set([')', ']', '}']);
+// Keywords that end an expression, so an operator after them is binary
+const VALUE_KEYWORDS = new Set(['this', 'super', 'true', 'false', 'null']);
+
+export function formatWren(source: string, options: WrenFormatOptions): string {
+    const eol = source.includes('\r\n') ? '\r\n' : '\n';
+    const output: string[] = [];
+    for (const line of formatWrenLines(source, options) ?? []) {
+        for (let i = 0; i < line.blankLinesBefore; i++) {
+            output.push('');
+        }
+        if (line.text !== undefined) {
+            output.push(line.text);
+        }
+    }
+    return output.length > 0 ? output.join(eol) : source;
+}
+
+// The formatted text of every line of the source, or undefined when the script has
+// unterminated strings or comments or unknown characters and can't be formatted safely
+export function formatWrenLines(source: string, options: WrenFormatOptions): WrenFormattedLine[] | undefined {
+    const module = parseWren(source);
+    if (module.tokens.some(token => token.kind === 'error')) {
+        return undefined;
+    }
+    const lines = source.split('\n').map(line => line.replace(/\r$/, ''));
+    const lineMap = new LineMap(source);
+    const lineOf = (offset: number) => lineMap.positionAt(offset).line;
+
+    // Tokens by line; lines that start inside a block comment or raw string are kept as they are
+    const lineTokens: WrenToken[][] = lines.map(() => []);
+    const verbatim = new Set<number>();
+    for (const token of module.tokens) {
+        if (token.kind === 'newline') {
+            continue;
+        }
+        const startLine = lineOf(token.start);
+        lineTokens[startLine].push(token);
+        for (let line = startLine + 1; line <= lineOf(token.end); line++) {
+            verbatim.add(line);
+        }
+    }
+
+    const spacing = new Spacing(module, options);
+    const texts: string[] = [];
+    // Indentation levels of the open brackets; the brackets opened on one line indent the next once
+    const levels: number[] = [0];
+    let continuation = false;
+    for (let line = 0; line < lines.length; line++) {
+        const tokens = lineTokens[line];
+        if (verbatim.has(line)) {
+            texts.push(lines[line]);
+            updateLevels(levels, tokens, levels[levels.length - 1]);
+            continue;
+        }
+        if (tokens.length === 0) {
+            texts.push('');
+            continue;
+        }
+
+        let leadingClosers = 0;
+        while (leadingClosers < tokens.length && tokens[leadingClosers].kind === 'punctuation' && CLOSING_BRACKETS.has(tokens[leadingClosers].text)) {
+            leadingClosers++;
+        }
+        const level = levels[Math.max(0, levels.length - 1 - leadingClosers)];
+        // Method chains (".map" on its own line) and expressions continued after an operator
+        const extra = continuation || isPunctuation(tokens[0], '.') ? 1 : 0;
+
+        let text = options.indent.repeat(level + extra) + firstLineOf(tokens[0].text);
+        for (let i = 1; i < tokens.length; i++) {
+            text += spacing.between(tokens[i - 1], tokens[i], source) + firstLineOf(tokens[i].text);
+        }
+        texts.push(text.replace(/\s+$/, ''));
+
+        updateLevels(levels, tokens, level);
+        const last = tokens[tokens.length - 1];
+        continuation = last.kind === 'punctuation' && BINARY_OPERATORS.has(last.text) && !spacing.isBlockParameterPipe(last);
+    }
+
+    return applyBlankLines(module, texts, verbatim, lineOf, options);
+}
+
+function firstLineOf(text: string): string {
+    const newline = text.indexOf('\n');
+    return newline < 0 ? text : text.substring(0, newline).replace(/\r$/, '');
+}
+
+function updateLevels(levels: number[], tokens: WrenToken[], lineLevel: number) {
+    // Brackets opened on this line and still open
+    let opened = 0;
+    for (const token of tokens) {
+        if (token.kind !== 'punctuation') {
+            continue;
+        }
+        if (OPENING_BRACKETS.has(token.text)) {
+            levels.push(opened > 0 ? levels[levels.length - 1] : lineLevel + 1);
+            opened++;
+        } else if (CLOSING_BRACKETS.has(token.text) && levels.length > 1) {
+            levels.pop();
+            opened = Math.max(0, opened - 1);
+        }
+    }
+}
+
+// The spaces between two tokens of a line
+class Spacing {
+    // Offsets of the signatures of methods, from the first modifier to the body
+    private readonly signatures: { start: number; end: number }[] = [];
+    // The | | around block parameters
+    private readonly pipes = new Set<number>();
+    // Tokens in order, for looking back past comments
+    private readonly indexes = new Map<WrenToken, number>();
+    private readonly significant: WrenToken[];
+
+    constructor(module: WrenModule, private readonly options: WrenFormatOptions) {
+        for (const declaration of module.classes) {
+            for (const member of declaration.members) {
+                this.signatures.push({ start: member.span.start, end: member.body?.start ?? member.span.end });
+            }
+        }
+        this.significant = module.tokens.filter(token => token.kind !== 'comment' && token.kind !== 'newline');
+        this.significant.forEach((token, index) => this.indexes.set(token, index));
+        for (let i = 0; i + 1 < this.significant.length; i++) {
+            if (isPunctuation(this.significant[i], '{') && isPunctuation(this.significant[i + 1], '|')) {
+                this.pipes.add(this.significant[i + 1].start);
+                const close = this.significant.slice(i + 2).find(token => isPunctuation(token, '|'));
+                if (close) {
+                    this.pipes.add(close.start);
+                }
+            }
+        }
+    }
+
+    isBlockParameterPipe(token: WrenToken): boolean {
+        return this.pipes.has(token.start);
+    }
+
+    between(previous: WrenToken, next: WrenToken, source: string): string {
+        const original = source.substring(previous.end, next.start);
+        // Comments, and tokens the formatter does not know, keep their spacing
+        if (previous.kind === 'comment' || next.kind === 'comment') {
+            return original.length > 0 ? (next.kind === 'comment' && previous.kind !== 'comment' ? original : ' ') : '';
+        }
+        // Inside an interpolation: "x = %(value)"
+        if (previous.kind === 'interpolation' || (next.kind === 'string' || next.kind === 'interpolation') && next.text.startsWith(')')) {
+            return '';
+        }
+        if (this.inSignature(previous) && this.inSignature(next)) {
+            return previous.kind === 'keyword' || isPunctuation(previous, ',') ? ' ' : '';
+        }
+
+        if (isPunctuation(next, ',')) {
+            return '';
+        }
+        if (isPunctuation(previous, ',')) {
+            return ' ';
+        }
+        if (isPunctuation(previous, '.') || isPunctuation(next, '.') || isRange(previous) || isRange(next)) {
+            return '';
+        }
+        if (isPunctuation(previous, '#') || (isPunctuation(previous, '!') && this.isAttributeBang(previous))) {
+            return '';
+        }
+
+        // Braces and block parameters
+        if (isPunctuation(previous, '{')) {
+            if (isPunctuation(next, '}') || this.isBlockParameterPipe(next)) {
+                return '';
+            }
+            return this.braceSpace(original);
+        }
+        if (isPunctuation(next, '}')) {
+            return this.braceSpace(original);
+        }
+        if (this.isBlockParameterPipe(previous)) {
+            return this.isOpeningPipe(previous) ? '' : ' ';
+        }
+        if (this.isBlockParameterPipe(next)) {
+            return this.isOpeningPipe(next) ? ' ' : '';
+        }
+        if (isPunctuation(next, '{')) {
+            return isPunctuation(previous, '(') || isPunctuation(previous, '[') ? '' : ' ';
+        }
+
+        // Brackets
+        if (isPunctuation(previous, '(') || isPunctuation(previous, '[') || isPunctuation(next, ')') || isPunctuation(next, ']')) {
+            return '';
+        }
+        if (isPunctuation(next, '(')) {
+            return previous.kind === 'keyword' && !VALUE_KEYWORDS.has(previous.text) ? ' ' : this.isOperand(previous) ? '' : ' ';
+        }
+        if (isPunctuation(next, '[')) {
+            return this.isOperand(previous) ? '' : ' ';
+        }
+
+        // Operators
+        if (previous.kind === 'punctuation' && UNARY_OPERATORS.has(previous.text) && this.isUnary(previous)) {
+            return '';
+        }
+        if (isPunctuation(next, ':') && !this.isTernaryColon(next)) {
+            return '';
+        }
+        return ' ';
+    }
+
+    private braceSpace(original: string): string {
+        switch (this.options.braceStyle) {
+            case 'compact':
+                return '';
+            case 'preserve':
+                return original.length > 0 ? ' ' : '';
+            default:
+                return ' ';
+        }
+    }
+
+    private inSignature(token: WrenToken): boolean {
+        return this.signatures.some(signature => signature.start <= token.start && token.start < signature.end);
+    }
+
+    private isOpeningPipe(token: WrenToken): boolean {
+        return isPunctuation(this.before(token), '{');
+    }
+
+    // #!internal
+    private isAttributeBang(token: WrenToken): boolean {
+        return isPunctuation(this.before(token), '#');
+    }
+
+    private isOperand(token: WrenToken): boolean {
+        return token.kind === 'name' || token.kind === 'field' || token.kind === 'staticField' ||
+            token.kind === 'number' || token.kind === 'string' ||
+            (token.kind === 'keyword' && VALUE_KEYWORDS.has(token.text)) ||
+            (token.kind === 'punctuation' && CLOSING_BRACKETS.has(token.text));
+    }
+
+    private isUnary(token: WrenToken): boolean {
+        if (token.text !== '-') {
+            return true;
+        }
+        const before = this.before(token);
+        return !before || !this.isOperand(before);
+    }
+
+    // A ":" after a "?" of the same line is part of a conditional; otherwise it separates a map key
+    private isTernaryColon(token: WrenToken): boolean {
+        let depth = 0;
+        for (let i = (this.indexes.get(token) ?? 0) - 1; i >= 0; i--) {
+            const candidate = this.significant[i];
+            if (candidate.kind !== 'punctuation') {
+                continue;
+            }
+            if (CLOSING_BRACKETS.has(candidate.text)) {
+                depth++;
+            } else if (OPENING_BRACKETS.has(candidate.text)) {
+                if (depth === 0) {
+                    return false;
+                }
+                depth--;
+            } else if (depth === 0 && (candidate.text === '?' || candidate.text === ',')) {
+                return candidate.text === '?';
+            }
+        }
+        return false;
+    }
+
+    private before(token: WrenToken): WrenToken | undefined {
+        const index = this.indexes.get(token);
+        return index ? this.significant[index - 1] : undefined;
+    }
+}
+
+function isRange(token: WrenToken): boolean {
+    return isPunctuation(token, '..') || isPunctuation(token, '...');
+}
+
+// Removes blank lines past the maximum and at the edges of blocks, and adds them between definitions
+function applyBlankLines(
+    module: WrenModule,
+    texts: string[],
+    verbatim: Set<number>,
+    lineOf: (offset: number) => number,
+    options: WrenFormatOptions
+): WrenFormattedLine[] {
+    const isBlank = (line: number) => texts[line] === '' && !verbatim.has(line);
+    // The first line of a definition, including the comments and attributes right above it
+    const definitionStart = (offset: number) => {
+        let line = lineOf(offset);
+        while (line > 0 && !isBlank(line - 1) && !verbatim.has(line - 1) && /^\s*(\/\/|\/\*|#)/.test(texts[line - 1])) {
+            line--;
+        }
+        return line;
+    };
+
+    const required = new Map<number, number>();
+    for (const declaration of module.classes) {
+        required.set(definitionStart(declaration.span.start), options.blankLinesBetweenDefinitions);
+        declaration.members.forEach((member, index) => {
+            const previous = declaration.members[index - 1];
+            const spansLines = (span: { start: number; end: number }) => lineOf(span.start) !== lineOf(span.end);
+            if (previous && (spansLines(member.span) || spansLines(previous.span)) && lineOf(previous.span.end) < lineOf(member.span.start)) {
+                required.set(definitionStart(member.span.start), options.blankLinesBetweenDefinitions);
+            }
+        });
+    }
+
+    const result: WrenFormattedLine[] = [];
+    let blanks: number[] = [];
+    let previousText: string | undefined;
+    for (let line = 0; line < texts.length; line++) {
+        if (isBlank(line)) {
+            blanks.push(line);
+            continue;
+        }
+        const text = texts[line].trim();
+        let target = Math.min(blanks.length, options.maxBlankLines);
+        if (previousText === undefined || /\{(\s*\|[^|]*\|)?$/.test(previousText.replace(/\s*\/\/.*$/, '')) || text.startsWith('}')) {
+            target = 0;
+        } else if (required.has(line)) {
+            target = Math.max(target, required.get(line)!);
+        }
+        blanks.forEach((blank, index) => result[blank] = { text: index < target ? '' : undefined, blankLinesBefore: 0 });
+        result[line] = { text: texts[line], blankLinesBefore: Math.max(0, target - blanks.length) };
+        blanks = [];
+        previousText = texts[line];
+    }
+    // Blank lines at the end, except the empty last line of a file ending with a newline
+    blanks.forEach((blank, index) => result[blank] = {
+        text: index === blanks.length - 1 && blank === texts.length - 1 ? '' : undefined,
+        blankLinesBefore: 0
+    });
+    return result;
+}
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { formatWrenLines, WrenFormatOptions } from './wrenFormatter';
+
+const SELECTOR: vscode.DocumentSelector = { language: 'wren' };
+
+// Document and selection formatting for Wren scripts, so "editor.formatOnSave" works for them
+export class WrenFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+    static register(): vscode.Disposable {
+        const provider = new WrenFormattingProvider();
+        return vscode.Disposable.from(
+            vscode.languages.registerDocumentFormattingEditProvider(SELECTOR, provider),
+            vscode.languages.registerDocumentRangeFormattingEditProvider(SELECTOR, provider)
+        );
+    }
+
+    provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions): vscode.TextEdit[] {
+        return this.format(document, options, 0, document.lineCount - 1);
+    }
+
+    provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range, options: vscode.FormattingOptions): vscode.TextEdit[] {
+        return this.format(document, options, range.start.line, range.end.line);
+    }
+
+    // The whole script is formatted, since indentation depends on the lines above, but
+    // only the lines from firstLine to lastLine are changed
+    private format(document: vscode.TextDocument, options: vscode.FormattingOptions, firstLine: number, lastLine: number): vscode.TextEdit[] {
+        const lines = formatWrenLines(document.getText(), getFormatOptions(document, options));
+        if (!lines) {
+            // Leave scripts with unterminated strings or comments alone; the diagnostics report them
+            return [];
+        }
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const edits: vscode.TextEdit[] = [];
+        for (let line = firstLine; line <= lastLine && line < lines.length; line++) {
+            const { text, blankLinesBefore } = lines[line];
+            const current = document.lineAt(line);
+            if (text === undefined) {
+                const end = line + 1 < document.lineCount ? new vscode.Position(line + 1, 0) : current.range.end;
+                const start = line + 1 < document.lineCount || line === 0 ? current.range.start : document.lineAt(line - 1).range.end;
+                edits.push(vscode.TextEdit.delete(new vscode.Range(start, end)));
+            } else if (text !== current.text || blankLinesBefore > 0) {
+                edits.push(vscode.TextEdit.replace(current.range, eol.repeat(blankLinesBefore) + text));
+            }
+        }
+        return edits;
+    }
+}
+
+function getFormatOptions(document: vscode.TextDocument, options: vscode.FormattingOptions): WrenFormatOptions {
+    const config = vscode.workspace.getConfiguration('xs.format', document.uri);
+    return {
+        indent: options.insertSpaces ? ' '.repeat(options.tabSize) : '\t',
+        braceStyle: config.get<WrenFormatOptions['braceStyle']>('braceStyle', 'spaced'),
+        maxBlankLines: config.get<number>('maxBlankLines', 1),
+        blankLinesBetweenDefinitions: config.get<number>('blankLinesBetweenDefinitions', 1)
+    };
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EXCLUDED_FOLDERS, XsProjects } from '../projects';
+import { parseWren, WrenClass, WrenModule, WrenSpan } from './wrenParser';
+import { LineMap } from './wrenTokenizer';
+import { getModuleName, resolveModulePath, WrenModuleContext } from './wrenModules';
+
+// A parsed Wren script
+export interface WrenScript {
+    uri: vscode.Uri;
+    module: WrenModule;
+    lines: LineMap;
+}
+
+// How many imports deep a class is followed through modules that import it themselves
+const MAX_IMPORT_DEPTH = 8;
+
+// Parses the Wren scripts of the workspace on demand and keeps them until they change.
+// Open documents are parsed from their current text, other scripts from disk
+export class WrenIndex implements vscode.Disposable {
+    private readonly scripts = new Map<string, WrenScript>();
+    private readonly documents = new Map<string, { version: number; script: WrenScript }>();
+    private files: Set<string> | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly projects: XsProjects) {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.wren');
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => this.files?.add(uri.toString())),
+            watcher.onDidChange(uri => this.scripts.delete(uri.toString())),
+            watcher.onDidDelete(uri => {
+                this.files?.delete(uri.toString());
+                this.scripts.delete(uri.toString());
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.documents.delete(document.uri.toString())),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.files = undefined)
+        );
+    }
+
+    parseDocument(document: vscode.TextDocument): WrenScript {
+        const key = document.uri.toString();
+        const cached = this.documents.get(key);
+        if (cached && cached.version === document.version) {
+            return cached.script;
+        }
+        const script = createScript(document.uri, document.getText());
+        this.documents.set(key, { version: document.version, script });
+        return script;
+    }
+
+    async getScript(uri: vscode.Uri): Promise<WrenScript | undefined> {
+        const key = uri.toString();
+        const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === key);
+        if (document) {
+            return this.parseDocument(document);
+        }
+        let script = this.scripts.get(key);
+        if (!script) {
+            try {
+                script = createScript(uri, (await vscode.workspace.fs.readFile(uri)).toString());
+            } catch {
+                return undefined;
+            }
+            this.scripts.set(key, script);
+        }
+        return script;
+    }
+
+    // Every Wren script in the workspace
+    async getAllScripts(): Promise<WrenScript[]> {
+        if (!this.files) {
+            const uris = await vscode.workspace.findFiles('**/*.wren', EXCLUDED_FOLDERS);
+            this.files = new Set(uris.map(uri => uri.toString()));
+        }
+        const scripts = await Promise.all([...this.files].map(key => this.getScript(vscode.Uri.parse(key))));
+        return scripts.filter((script): script is WrenScript => !!script);
+    }
+
+    // The script an import refers to, resolved against the project of the importing script
+    resolveImport(importer: vscode.Uri, module: string): vscode.Uri | undefined {
+        const modulePath = resolveModulePath(module, this.getModuleContext(importer));
+        return modulePath ? vscode.Uri.file(modulePath) : undefined;
+    }
+
+    // The name other scripts of the project import a script by
+    getModuleName(uri: vscode.Uri): string {
+        return getModuleName(uri.fsPath, this.getModuleContext(uri));
+    }
+
+    // A class visible in a script: declared in it, or imported (possibly under an alias)
+    async findClass(script: WrenScript, name: string, depth = 0): Promise<{ script: WrenScript; declaration: WrenClass } | undefined> {
+        const declaration = script.module.classes.find(candidate => candidate.name === name);
+        if (declaration) {
+            return { script, declaration };
+        }
+        if (depth >= MAX_IMPORT_DEPTH) {
+            return undefined;
+        }
+        for (const declarationImport of script.module.imports) {
+            const imported = declarationImport.names.find(candidate => candidate.alias === name);
+            const uri = imported && this.resolveImport(script.uri, declarationImport.module);
+            const target = uri && await this.getScript(uri);
+            if (imported && target) {
+                return this.findClass(target, imported.name, depth + 1);
+            }
+        }
+        return undefined;
+    }
+
+    private getModuleContext(uri: vscode.Uri): WrenModuleContext {
+        const project = this.projects.getProjectForUri(uri);
+        const projectFolder = project?.folder.fsPath
+            ?? vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath
+            ?? path.dirname(uri.fsPath);
+        return { projectFolder, main: project?.main, importer: uri.fsPath };
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+function createScript(uri: vscode.Uri, text: string): WrenScript {
+    return { uri, module: parseWren(text), lines: new LineMap(text) };
+}
+
+export function toRange(script: WrenScript, span: WrenSpan): vscode.Range {
+    const start = script.lines.positionAt(span.start);
+    const end = script.lines.positionAt(span.end);
+    return new vscode.Range(start.line, start.character, end.line, end.character);
+}
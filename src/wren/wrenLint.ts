@@ -0,0 +1,221 @@
+import { isBuiltInModule } from './wrenModules';
+import { WrenModule, WrenSpan } from './wrenParser';
+import { isKeyword, isPunctuation, previousToken, WrenToken } from './wrenTokenizer';
+
+// Static checks of a parsed Wren script, without running the engine
+
+export type WrenProblemSeverity = 'error' | 'warning';
+
+export interface WrenProblem {
+    message: string;
+    span: WrenSpan;
+    severity: WrenProblemSeverity;
+}
+
+export interface WrenLintContext {
+    // The parsed script an import refers to, or undefined when the file does not exist.
+    // Only called for modules that are not built into the engine
+    resolveModule(module: string): WrenModule | undefined;
+}
+
+// Classes of the Wren core module, available in every script
+export const WREN_CORE_CLASSES = new Set([
+    'Bool', 'Class', 'Fiber', 'Fn', 'List', 'Map', 'MapEntry', 'MapKeySequence', 'MapSequence', 'MapValueSequence',
+    'Null', 'Num', 'Object', 'Range', 'Sequence', 'SkipSequence', 'String', 'StringByteSequence',
+    'StringCodePointSequence', 'System', 'TakeSequence', 'WhereSequence'
+]);
+
+const CLOSING_BRACKETS: { [close: string]: string } = { ')': '(', ']': '[', '}': '{' };
+
+export function lintWren(module: WrenModule, context: WrenLintContext): WrenProblem[] {
+    const problems: WrenProblem[] = [];
+    const error = (message: string, span: WrenSpan) => problems.push({ message, span, severity: 'error' });
+
+    checkTokens(module.tokens, error);
+    for (const syntaxError of module.errors) {
+        error(syntaxError.message, syntaxError.span);
+    }
+    checkImports(module, context, error);
+    checkDuplicateMembers(module, error);
+    checkUndefinedVariables(module, error);
+    return problems.sort((a, b) => a.span.start - b.span.start);
+}
+
+// Unterminated strings and comments, unknown characters and unbalanced brackets
+function checkTokens(tokens: WrenToken[], error: (message: string, span: WrenSpan) => void) {
+    const open: WrenToken[] = [];
+    for (const token of tokens) {
+        if (token.kind === 'error') {
+            if (token.text.startsWith(')')) {
+                open.pop();
+            }
+            error(token.text.startsWith('/*') ? 'Unterminated block comment'
+                : /^["')]/.test(token.text) ? 'Unterminated string'
+                : `Unexpected character '${token.text}'`, token);
+            continue;
+        }
+        // String segments after an interpolation start with the ")" that closes it
+        if ((token.kind === 'string' || token.kind === 'interpolation') && token.text.startsWith(')')) {
+            open.pop();
+        }
+        if (token.kind === 'interpolation') {
+            open.push(token);
+        }
+        if (token.kind !== 'punctuation') {
+            continue;
+        }
+        if (token.text === '(' || token.text === '[' || token.text === '{') {
+            open.push(token);
+        } else if (token.text in CLOSING_BRACKETS) {
+            const expected = CLOSING_BRACKETS[token.text];
+            const last = open[open.length - 1];
+            if (last?.text === expected) {
+                open.pop();
+            } else if (last) {
+                error(`Expected '${closingOf(last)}' before '${token.text}'`, token);
+                // Close up to a matching outer bracket, or take it for a typo of the expected one
+                const outer = open.map(candidate => candidate.text).lastIndexOf(expected);
+                open.length = outer >= 0 ? outer : open.length - 1;
+            } else {
+                error(`Unmatched '${token.text}'`, token);
+            }
+        }
+    }
+    for (const token of open) {
+        error(`'${token.kind === 'interpolation' ? '%(' : token.text}' is never closed`, { start: token.end - 1, end: token.end });
+    }
+}
+
+function closingOf(token: WrenToken): string {
+    return token.kind === 'interpolation' || token.text === '(' ? ')' : token.text === '[' ? ']' : '}';
+}
+
+function checkImports(module: WrenModule, context: WrenLintContext, error: (message: string, span: WrenSpan) => void) {
+    for (const declarationImport of module.imports) {
+        if (isBuiltInModule(declarationImport.module)) {
+            continue;
+        }
+
+        const target = context.resolveModule(declarationImport.module);
+        if (!target) {
+            error(`Cannot find module '${declarationImport.module}'`, declarationImport.moduleSpan);
+            continue;
+        }
+        // Module variables: classes, "var"s and the names the module imports itself
+        const exported = new Set([
+            ...target.classes.map(declaration => declaration.name),
+            ...target.variables.map(variable => variable.name),
+            ...target.imports.flatMap(targetImport => targetImport.names.map(name => name.alias))
+        ]);
+        for (const imported of declarationImport.names) {
+            if (!exported.has(imported.name)) {
+                error(`Module '${declarationImport.module}' does not define '${imported.name}'`, imported.nameSpan);
+            }
+        }
+    }
+}
+
+// Two definitions of the same signature in a class; Wren refuses to compile them
+function checkDuplicateMembers(module: WrenModule, error: (message: string, span: WrenSpan) => void) {
+    for (const declaration of module.classes) {
+        const seen = new Set<string>();
+        for (const member of declaration.members) {
+            const key = `${member.isStatic || member.kind === 'constructor' ? 'static ' : ''}${member.signature}`;
+            if (seen.has(key)) {
+                error(`Class ${declaration.name} already defines ${member.isStatic ? 'static ' : ''}${member.signature}`, member.nameSpan);
+            }
+            seen.add(key);
+        }
+    }
+}
+
+// Names that are neither locals, parameters, module variables, imports nor core classes.
+// Inside methods, lowercase names that are not locals are calls on this, as in Wren
+function checkUndefinedVariables(module: WrenModule, error: (message: string, span: WrenSpan) => void) {
+    const moduleNames = new Set([
+        ...WREN_CORE_CLASSES,
+        ...module.classes.map(declaration => declaration.name),
+        ...module.variables.map(variable => variable.name),
+        ...module.imports.flatMap(declarationImport => declarationImport.names.map(name => name.alias))
+    ]);
+    // Method bodies, by the offset of their opening brace, with their parameters
+    const bodies = new Map<number, string[]>();
+    for (const declaration of module.classes) {
+        for (const member of declaration.members) {
+            if (member.body) {
+                bodies.set(member.body.start, member.parameters);
+            }
+        }
+    }
+    const inClassDeclaration = (offset: number) => module.classes.some(declaration => declaration.span.start <= offset && offset < declaration.span.end);
+    const inImport = (offset: number) => module.imports.some(declarationImport => declarationImport.span.start <= offset && offset < declarationImport.span.end);
+
+    const tokens = module.tokens;
+    // Local scopes, innermost last: method bodies and the blocks in them, and blocks of module code
+    const scopes: { names: Set<string>; inMethod: boolean }[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        // Class declarations outside method bodies declare, they don't use names
+        if (scopes.length === 0 && inClassDeclaration(token.start)) {
+            const parameters = bodies.get(token.start);
+            if (parameters) {
+                scopes.push({ names: new Set(parameters), inMethod: true });
+            }
+            continue;
+        }
+        if (isPunctuation(token, '{')) {
+            const scope = { names: new Set<string>(), inMethod: scopes.some(outer => outer.inMethod) };
+            // Block parameters: { |a, b| ... }
+            let next = nextToken(tokens, i);
+            if (isPunctuation(tokens[next], '|')) {
+                for (next = nextToken(tokens, next); next < tokens.length && !isPunctuation(tokens[next], '|'); next = nextToken(tokens, next)) {
+                    if (tokens[next].kind === 'name') {
+                        scope.names.add(tokens[next].text);
+                    }
+                }
+                i = next;
+            }
+            scopes.push(scope);
+            continue;
+        }
+        if (isPunctuation(token, '}')) {
+            scopes.pop();
+            continue;
+        }
+        // Attributes of module code, up to the end of the line
+        if (isPunctuation(token, '#')) {
+            while (i + 1 < tokens.length && tokens[i + 1].kind !== 'newline') {
+                i++;
+            }
+            continue;
+        }
+        if (token.kind !== 'name' || inImport(token.start)) {
+            continue;
+        }
+
+        const previous = previousToken(tokens, i);
+        const declares = isKeyword(previous, 'var')
+            // for (item in sequence)
+            || (previous && isPunctuation(previous, '(') && isKeyword(previousToken(tokens, tokens.indexOf(previous)), 'for'));
+        if (declares) {
+            (scopes[scopes.length - 1]?.names ?? moduleNames).add(token.text);
+            continue;
+        }
+        if (isPunctuation(previous, '.')) {
+            continue;
+        }
+        const isLocal = scopes.some(scope => scope.names.has(token.text));
+        const isThisCall = /^[a-z]/.test(token.text) && scopes.some(scope => scope.inMethod);
+        if (!isLocal && !isThisCall && !moduleNames.has(token.text)) {
+            error(`Undefined variable '${token.text}'`, token);
+        }
+    }
+}
+
+function nextToken(tokens: WrenToken[], index: number): number {
+    let next = index + 1;
+    while (next < tokens.length && (tokens[next].kind === 'comment' || tokens[next].kind === 'newline')) {
+        next++;
+    }
+    return next;
+}
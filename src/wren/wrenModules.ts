@@ -0,0 +1,55 @@
+import * as path from 'path';
+
+// Module resolution as the engine does it: "xs", "xs/..." and Wren's optional "random" and
+// "meta" are built into the engine, "[shared]/..." comes from the engine's shared folder,
+// "[game]/..." is relative to the project folder, "./" and "../" to the importing script,
+// and other names to the folder of the project's Main script
+
+export interface WrenModuleContext {
+    projectFolder: string;
+    // project.json "Main", e.g. "game.wren" or "[game]/scripts/game.wren"
+    main?: string;
+    // The script containing the import
+    importer?: string;
+}
+
+const WREN_OPTIONAL_MODULES = ['random', 'meta'];
+
+// Modules the engine provides rather than the project
+export function isBuiltInModule(module: string): boolean {
+    return module === 'xs' || module.startsWith('xs/') || WREN_OPTIONAL_MODULES.includes(module) ||
+        /^\[shared\][\\/]/.test(module);
+}
+
+// The file a module name refers to, or undefined for modules the engine provides
+export function resolveModulePath(module: string, context: WrenModuleContext): string | undefined {
+    if (isBuiltInModule(module)) {
+        return undefined;
+    }
+    const fileName = module.endsWith('.wren') ? module : `${module}.wren`;
+    if (/^\[game\][\\/]/.test(fileName)) {
+        return path.join(context.projectFolder, fileName.substring('[game]/'.length));
+    }
+    if (/^\.\.?[\\/]/.test(fileName) && context.importer) {
+        return path.join(path.dirname(context.importer), fileName);
+    }
+    return path.join(getScriptsFolder(context), fileName);
+}
+
+// The name a file is imported by from other scripts of the project
+export function getModuleName(filePath: string, context: WrenModuleContext): string {
+    const relativePath = path.relative(getScriptsFolder(context), filePath);
+    const moduleName = relativePath.startsWith('..') || path.isAbsolute(relativePath)
+        ? '[game]/' + path.relative(context.projectFolder, filePath)
+        : relativePath;
+    return moduleName.replace(/\\/g, '/').replace(/\.wren$/, '');
+}
+
+// The folder of the Main script, where imports by name are looked up
+function getScriptsFolder(context: WrenModuleContext): string {
+    if (!context.main) {
+        return context.projectFolder;
+    }
+    const main = context.main.replace(/^\[game\][\\/]/, '');
+    return path.dirname(path.join(context.projectFolder, main));
+}
@@ -0,0 +1,388 @@
+import { isKeyword, isPunctuation, tokenize, WrenToken } from './wrenTokenizer';
+
+// A lightweight declaration parser for Wren: it finds imports, classes with their members and
+// module variables, and skips over method bodies. It never fails; unexpected tokens are skipped
+
+export interface WrenSpan {
+    start: number;
+    end: number;
+}
+
+export type WrenMemberKind = 'constructor' | 'method' | 'getter' | 'setter' | 'operator' | 'subscript' | 'subscriptSetter';
+
+export interface WrenMember {
+    kind: WrenMemberKind;
+    name: string;
+    // The Wren signature, e.g. "update(_)", "x=(_)", "[_,_]", "-"
+    signature: string;
+    parameters: string[];
+    isStatic: boolean;
+    isForeign: boolean;
+    span: WrenSpan;
+    nameSpan: WrenSpan;
+    // Undefined for foreign members
+    body?: WrenSpan;
+}
+
+export interface WrenClass {
+    name: string;
+    superclass?: string;
+    isForeign: boolean;
+    members: WrenMember[];
+    span: WrenSpan;
+    nameSpan: WrenSpan;
+}
+
+export interface WrenImportedName {
+    name: string;
+    // The name bound in the importing module ("as" alias, or the name itself)
+    alias: string;
+    nameSpan: WrenSpan;
+}
+
+export interface WrenImport {
+    module: string;
+    names: WrenImportedName[];
+    span: WrenSpan;
+    moduleSpan: WrenSpan;
+}
+
+export interface WrenVariable {
+    name: string;
+    span: WrenSpan;
+    nameSpan: WrenSpan;
+}
+
+// A malformed declaration; errors inside method bodies and statements are not detected
+export interface WrenSyntaxError {
+    message: string;
+    span: WrenSpan;
+}
+
+export interface WrenModule {
+    imports: WrenImport[];
+    classes: WrenClass[];
+    // Module level "var" declarations
+    variables: WrenVariable[];
+    tokens: WrenToken[];
+    errors: WrenSyntaxError[];
+}
+
+const OPERATORS = new Set(['+', '-', '*', '/', '%', '<', '>', '<=', '>=', '==', '!=', '&', '|', '^', '<<', '>>', '~', '!', '..', '...', 'is']);
+
+export function parseWren(source: string): WrenModule {
+    const tokens = tokenize(source);
+    return new Parser(tokens.filter(token => token.kind !== 'comment')).parse(tokens);
+}
+
+class Parser {
+    private index = 0;
+    private readonly errors: WrenSyntaxError[] = [];
+
+    constructor(private readonly tokens: WrenToken[]) {}
+
+    parse(allTokens: WrenToken[]): WrenModule {
+        const module: WrenModule = { imports: [], classes: [], variables: [], tokens: allTokens, errors: this.errors };
+        while (this.index < this.tokens.length) {
+            const token = this.tokens[this.index];
+            if (isKeyword(token, 'import')) {
+                const declaration = this.parseImport();
+                if (declaration) {
+                    module.imports.push(declaration);
+                }
+            } else if (isKeyword(token, 'class') || (isKeyword(token, 'foreign') && isKeyword(this.peek(1), 'class'))) {
+                const declaration = this.parseClass();
+                if (declaration) {
+                    module.classes.push(declaration);
+                }
+            } else if (isKeyword(token, 'var')) {
+                const name = this.tokens[this.index + 1];
+                if (name?.kind === 'name') {
+                    module.variables.push({ name: name.text, span: { start: token.start, end: name.end }, nameSpan: spanOf(name) });
+                    this.index += 2;
+                } else {
+                    this.error('Expected a variable name after \'var\'', token);
+                    this.index++;
+                }
+            } else if (isPunctuation(token, '{')) {
+                // Blocks of module level statements declare locals, not module variables
+                this.skipBlock();
+            } else {
+                this.index++;
+            }
+        }
+        return module;
+    }
+
+    // import "module" for Name, Other as Alias
+    private parseImport(): WrenImport | undefined {
+        const start = this.tokens[this.index].start;
+        this.index++;
+        const moduleToken = this.peek();
+        if (moduleToken?.kind !== 'string') {
+            this.error('Expected a module name string after \'import\'', this.tokens[this.index - 1]);
+            return undefined;
+        }
+        this.index++;
+        const declaration: WrenImport = {
+            module: unquote(moduleToken.text),
+            names: [],
+            span: { start, end: moduleToken.end },
+            moduleSpan: spanOf(moduleToken)
+        };
+        if (!isKeyword(this.peek(), 'for')) {
+            return declaration;
+        }
+        this.index++;
+        while (true) {
+            this.skipNewlines();
+            const name = this.peek();
+            if (name?.kind !== 'name') {
+                break;
+            }
+            this.index++;
+            const imported: WrenImportedName = { name: name.text, alias: name.text, nameSpan: spanOf(name) };
+            declaration.span.end = name.end;
+            if (isKeyword(this.peek(), 'as') && this.peek(1)?.kind === 'name') {
+                const alias = this.tokens[this.index + 1];
+                imported.alias = alias.text;
+                imported.nameSpan = spanOf(alias);
+                declaration.span.end = alias.end;
+                this.index += 2;
+            }
+            declaration.names.push(imported);
+            if (!isPunctuation(this.peek(), ',')) {
+                break;
+            }
+            this.index++;
+        }
+        return declaration;
+    }
+
+    // [foreign] class Name [is Superclass] { members }
+    private parseClass(): WrenClass | undefined {
+        const start = this.tokens[this.index].start;
+        const isForeign = isKeyword(this.tokens[this.index], 'foreign');
+        this.index += isForeign ? 2 : 1;
+        const name = this.peek();
+        if (name?.kind !== 'name') {
+            this.error('Expected a class name', this.tokens[this.index - 1]);
+            return undefined;
+        }
+        this.index++;
+        const declaration: WrenClass = {
+            name: name.text,
+            isForeign,
+            members: [],
+            span: { start, end: name.end },
+            nameSpan: spanOf(name)
+        };
+        if (isKeyword(this.peek(), 'is')) {
+            this.index++;
+            const superclass = this.peek();
+            if (superclass?.kind === 'name') {
+                declaration.superclass = superclass.text;
+                this.index++;
+            }
+        }
+        this.skipNewlines();
+        if (!isPunctuation(this.peek(), '{')) {
+            this.error(`Expected '{' to begin the body of class ${name.text}`, this.tokens[this.index - 1]);
+            return declaration;
+        }
+        this.index++;
+
+        while (this.index < this.tokens.length) {
+            this.skipNewlines();
+            const token = this.peek();
+            if (!token) {
+                break;
+            }
+            if (isPunctuation(token, '}')) {
+                this.index++;
+                declaration.span.end = token.end;
+                return declaration;
+            }
+            // Attributes, e.g. #doc = "..." or #!internal, up to the end of the line
+            if (isPunctuation(token, '#')) {
+                while (this.index < this.tokens.length && this.tokens[this.index].kind !== 'newline') {
+                    this.index++;
+                }
+                continue;
+            }
+            const member = this.parseMember();
+            if (member) {
+                declaration.members.push(member);
+            } else {
+                // Skip the rest of the line, reporting it once
+                this.error('Expected a method definition', token);
+                this.index++;
+                while (this.index < this.tokens.length && this.tokens[this.index].kind !== 'newline' && !isPunctuation(this.peek(), '}')) {
+                    this.index++;
+                }
+            }
+        }
+        declaration.span.end = this.tokens[this.tokens.length - 1]?.end ?? declaration.span.end;
+        return declaration;
+    }
+
+    private parseMember(): WrenMember | undefined {
+        const first = this.index;
+        const isForeign = this.accept('foreign');
+        const isStatic = this.accept('static');
+        const isConstructor = this.accept('construct');
+        const nameToken = this.peek();
+        if (!nameToken) {
+            return undefined;
+        }
+
+        let kind: WrenMemberKind;
+        let name: string;
+        let signature: string;
+        let parameters: string[] = [];
+        let nameEnd = nameToken.end;
+
+        if (nameToken.kind === 'name') {
+            this.index++;
+            name = nameToken.text;
+            if (isPunctuation(this.peek(), '=') && isPunctuation(this.peek(1), '(')) {
+                this.index++;
+                kind = 'setter';
+                parameters = this.parseParameters('(', ')');
+                signature = `${name}=(_)`;
+            } else if (isPunctuation(this.peek(), '(')) {
+                kind = isConstructor ? 'constructor' : 'method';
+                parameters = this.parseParameters('(', ')');
+                signature = `${name}(${parameters.map(() => '_').join(',')})`;
+            } else {
+                kind = 'getter';
+                signature = name;
+            }
+        } else if (isPunctuation(nameToken, '[')) {
+            parameters = this.parseParameters('[', ']');
+            nameEnd = this.tokens[this.index - 1].end;
+            name = '[]';
+            signature = `[${parameters.map(() => '_').join(',')}]`;
+            kind = 'subscript';
+            if (isPunctuation(this.peek(), '=') && isPunctuation(this.peek(1), '(')) {
+                this.index++;
+                parameters = parameters.concat(this.parseParameters('(', ')'));
+                name = '[]=';
+                signature += '=(_)';
+                kind = 'subscriptSetter';
+            }
+        } else if ((nameToken.kind === 'punctuation' || nameToken.kind === 'keyword') && OPERATORS.has(nameToken.text)) {
+            this.index++;
+            name = nameToken.text;
+            kind = 'operator';
+            if (isPunctuation(this.peek(), '(')) {
+                parameters = this.parseParameters('(', ')');
+                signature = `${name}(_)`;
+            } else {
+                signature = name;
+            }
+        } else {
+            this.index = first;
+            return undefined;
+        }
+
+        const start = this.tokens[first].start;
+        let end = this.tokens[this.index - 1].end;
+        let body: WrenSpan | undefined;
+        if (!isForeign && isPunctuation(this.peek(), '{')) {
+            const open = this.tokens[this.index].start;
+            end = this.skipBlock();
+            body = { start: open, end };
+        } else if (!isForeign) {
+            this.error(`Expected '{' to begin the body of ${signature}`, this.tokens[this.index - 1]);
+        }
+        return {
+            kind,
+            name,
+            signature,
+            parameters,
+            isStatic,
+            isForeign,
+            span: { start, end },
+            nameSpan: { start: nameToken.start, end: nameEnd },
+            body
+        };
+    }
+
+    // Parameter names between open and close; leaves the index after close
+    private parseParameters(open: string, close: string): string[] {
+        const parameters: string[] = [];
+        if (!isPunctuation(this.peek(), open)) {
+            return parameters;
+        }
+        this.index++;
+        while (this.index < this.tokens.length) {
+            const token = this.tokens[this.index++];
+            if (isPunctuation(token, close)) {
+                break;
+            }
+            if (token.kind === 'name') {
+                parameters.push(token.text);
+            }
+        }
+        return parameters;
+    }
+
+    // Skips a balanced { } block starting at the index; returns the end offset of the closing brace
+    private skipBlock(): number {
+        let depth = 0;
+        while (this.index < this.tokens.length) {
+            const token = this.tokens[this.index++];
+            if (isPunctuation(token, '{')) {
+                depth++;
+            } else if (isPunctuation(token, '}')) {
+                depth--;
+                if (depth === 0) {
+                    return token.end;
+                }
+            }
+        }
+        return this.tokens[this.tokens.length - 1]?.end ?? 0;
+    }
+
+    private error(message: string, token: WrenToken) {
+        this.errors.push({ message, span: spanOf(token) });
+    }
+
+    private skipNewlines() {
+        while (this.peek()?.kind === 'newline') {
+            this.index++;
+        }
+    }
+
+    private accept(keyword: string): boolean {
+        if (isKeyword(this.peek(), keyword)) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private peek(ahead = 0): WrenToken | undefined {
+        return this.tokens[this.index + ahead];
+    }
+}
+
+function spanOf(token: WrenToken): WrenSpan {
+    return { start: token.start, end: token.end };
+}
+
+function unquote(text: string): string {
+    return text.replace(/^"/, '').replace(/"$/, '');
+}
+
+// The class whose declaration contains an offset
+export function findEnclosingClass(module: WrenModule, offset: number): WrenClass | undefined {
+    return module.classes.find(declaration => declaration.span.start <= offset && offset <= declaration.span.end);
+}
+
+// The token containing an offset, or ending at it (the cursor right after a name)
+export function findTokenAt(module: WrenModule, offset: number): WrenToken | undefined {
+    return module.tokens.find(token => token.start <= offset && offset < token.end)
+        ?? module.tokens.find(token => token.end === offset && token.kind !== 'newline');
+}
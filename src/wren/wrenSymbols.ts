@@ -0,0 +1,288 @@
+import * as vscode from 'vscode';
+import { findEnclosingClass, findTokenAt, WrenClass, WrenMember } from './wrenParser';
+import { isKeyword, isPunctuation, previousToken, WrenToken } from './wrenTokenizer';
+import { toRange, WrenIndex, WrenScript } from './wrenIndex';
+
+const SELECTOR: vscode.DocumentSelector = { language: 'wren' };
+
+// Outline, workspace symbol search and go-to-definition for Wren scripts
+export class WrenSymbolProvider implements vscode.DocumentSymbolProvider, vscode.WorkspaceSymbolProvider, vscode.DefinitionProvider {
+    static register(index: WrenIndex): vscode.Disposable {
+        const provider = new WrenSymbolProvider(index);
+        return vscode.Disposable.from(
+            vscode.languages.registerDocumentSymbolProvider(SELECTOR, provider),
+            vscode.languages.registerWorkspaceSymbolProvider(provider),
+            vscode.languages.registerDefinitionProvider(SELECTOR, provider)
+        );
+    }
+
+    constructor(private readonly index: WrenIndex) {}
+
+    provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        const script = this.index.parseDocument(document);
+        const symbols = script.module.classes.map(declaration => {
+            const symbol = new vscode.DocumentSymbol(
+                declaration.name,
+                declaration.superclass ? `is ${declaration.superclass}` : '',
+                vscode.SymbolKind.Class,
+                toRange(script, declaration.span),
+                toRange(script, declaration.nameSpan)
+            );
+            symbol.children = declaration.members.map(member => new vscode.DocumentSymbol(
+                getMemberLabel(member),
+                getMemberDetail(member),
+                getMemberKind(member),
+                toRange(script, member.span),
+                toRange(script, member.nameSpan)
+            ));
+            return symbol;
+        });
+        for (const variable of script.module.variables) {
+            symbols.push(new vscode.DocumentSymbol(
+                variable.name, '', vscode.SymbolKind.Variable, toRange(script, variable.span), toRange(script, variable.nameSpan)
+            ));
+        }
+        return symbols.sort((a, b) => a.range.start.compareTo(b.range.start));
+    }
+
+    async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+        const symbols: vscode.SymbolInformation[] = [];
+        for (const script of await this.index.getAllScripts()) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            const moduleName = this.index.getModuleName(script.uri);
+            for (const declaration of script.module.classes) {
+                if (matchesQuery(declaration.name, query)) {
+                    symbols.push(new vscode.SymbolInformation(
+                        declaration.name, vscode.SymbolKind.Class, moduleName,
+                        new vscode.Location(script.uri, toRange(script, declaration.nameSpan))
+                    ));
+                }
+                for (const member of declaration.members) {
+                    if (matchesQuery(member.name, query)) {
+                        symbols.push(new vscode.SymbolInformation(
+                            getMemberLabel(member), getMemberKind(member), declaration.name,
+                            new vscode.Location(script.uri, toRange(script, member.nameSpan))
+                        ));
+                    }
+                }
+            }
+        }
+        return symbols;
+    }
+
+    async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location[] | undefined> {
+        const script = this.index.parseDocument(document);
+        const offset = document.offsetAt(position);
+        const token = findTokenAt(script.module, offset);
+        if (!token) {
+            return undefined;
+        }
+
+        // The module of an import statement
+        if (token.kind === 'string') {
+            const declarationImport = script.module.imports.find(candidate => candidate.moduleSpan.start === token.start);
+            const uri = declarationImport && this.index.resolveImport(document.uri, declarationImport.module);
+            return uri && await this.index.getScript(uri) ? [new vscode.Location(uri, new vscode.Position(0, 0))] : undefined;
+        }
+        if (token.kind !== 'name') {
+            return undefined;
+        }
+
+        const tokens = script.module.tokens;
+        const dot = previousToken(tokens, tokens.indexOf(token));
+        if (dot && isPunctuation(dot, '.')) {
+            return this.findMemberDefinitions(script, previousToken(tokens, tokens.indexOf(dot)), token.text, offset);
+        }
+        return this.findNameDefinitions(script, token, offset);
+    }
+
+    // receiver.name: a static member of a class, a member of this or super, or any member with that name
+    private async findMemberDefinitions(script: WrenScript, receiver: WrenToken | undefined, name: string, offset: number): Promise<vscode.Location[] | undefined> {
+        const enclosing = findEnclosingClass(script.module, offset);
+        if (receiver?.kind === 'keyword' && (receiver.text === 'this' || receiver.text === 'super') && enclosing) {
+            const start = receiver.text === 'this'
+                ? { script, declaration: enclosing }
+                : enclosing.superclass && await this.index.findClass(script, enclosing.superclass);
+            return start ? this.findInClassHierarchy(start.script, start.declaration, name, () => true) : undefined;
+        }
+        if (receiver?.kind === 'name' && /^[A-Z]/.test(receiver.text)) {
+            const found = await this.index.findClass(script, receiver.text);
+            if (found) {
+                return this.findInClassHierarchy(found.script, found.declaration, name, member => member.isStatic || member.kind === 'constructor');
+            }
+        }
+
+        // The receiver's class is unknown; offer every member with that name
+        const locations: vscode.Location[] = [];
+        for (const candidate of await this.index.getAllScripts()) {
+            for (const declaration of candidate.module.classes) {
+                for (const member of declaration.members.filter(member => member.name === name)) {
+                    locations.push(new vscode.Location(candidate.uri, toRange(candidate, member.nameSpan)));
+                }
+            }
+        }
+        return locations;
+    }
+
+    private async findInClassHierarchy(
+        script: WrenScript,
+        declaration: WrenClass,
+        name: string,
+        filter: (member: WrenMember) => boolean
+    ): Promise<vscode.Location[] | undefined> {
+        for (let depth = 0; depth < 16; depth++) {
+            const members = declaration.members.filter(member => member.name === name && filter(member));
+            if (members.length > 0) {
+                return members.map(member => new vscode.Location(script.uri, toRange(script, member.nameSpan)));
+            }
+            const superclass = declaration.superclass && await this.index.findClass(script, declaration.superclass);
+            if (!superclass) {
+                return undefined;
+            }
+            ({ script, declaration } = superclass);
+        }
+        return undefined;
+    }
+
+    // A bare name: a local or parameter, a method of the enclosing class, a module variable, a class
+    private async findNameDefinitions(script: WrenScript, token: WrenToken, offset: number): Promise<vscode.Location[] | undefined> {
+        const name = token.text;
+        const local = findLocalDeclaration(script, token, offset);
+        if (local) {
+            return local === token ? undefined : [new vscode.Location(script.uri, toRange(script, local))];
+        }
+
+        const enclosing = findEnclosingClass(script.module, offset);
+        if (enclosing && /^[a-z]/.test(name)) {
+            const members = await this.findInClassHierarchy(script, enclosing, name, () => true);
+            if (members) {
+                return members;
+            }
+        }
+
+        const variable = script.module.variables.find(candidate => candidate.name === name);
+        if (variable) {
+            return [new vscode.Location(script.uri, toRange(script, variable.nameSpan))];
+        }
+
+        const found = await this.index.findClass(script, name);
+        if (found) {
+            return [new vscode.Location(found.script.uri, toRange(found.script, found.declaration.nameSpan))];
+        }
+
+        // Imported module variables
+        for (const declarationImport of script.module.imports) {
+            const imported = declarationImport.names.find(candidate => candidate.alias === name);
+            const uri = imported && this.index.resolveImport(script.uri, declarationImport.module);
+            const target = uri && await this.index.getScript(uri);
+            const importedVariable = imported && target && target.module.variables.find(candidate => candidate.name === imported.name);
+            if (target && importedVariable) {
+                return [new vscode.Location(target.uri, toRange(target, importedVariable.nameSpan))];
+            }
+        }
+
+        // Classes of modules not imported here, e.g. when the import is missing
+        if (/^[A-Z]/.test(name)) {
+            const locations: vscode.Location[] = [];
+            for (const candidate of await this.index.getAllScripts()) {
+                for (const declaration of candidate.module.classes.filter(declaration => declaration.name === name)) {
+                    locations.push(new vscode.Location(candidate.uri, toRange(candidate, declaration.nameSpan)));
+                }
+            }
+            return locations;
+        }
+        return undefined;
+    }
+}
+
+// The declaration of a local variable or parameter visible at an offset, within the enclosing method
+function findLocalDeclaration(script: WrenScript, token: WrenToken, offset: number): WrenToken | undefined {
+    const member = findEnclosingClass(script.module, offset)?.members.find(candidate => candidate.span.start <= offset && offset <= candidate.span.end);
+    const tokens = script.module.tokens;
+    const start = member ? member.nameSpan.end : 0;
+    let declaration: WrenToken | undefined;
+    for (let i = 0; i < tokens.length && tokens[i].start <= token.start; i++) {
+        const candidate = tokens[i];
+        if (candidate.start < start || candidate.kind !== 'name' || candidate.text !== token.text) {
+            continue;
+        }
+        const previous = previousToken(tokens, i);
+        const isVariable = previous?.kind === 'keyword' && previous.text === 'var';
+        // Parameters of the method, of block arguments |a, b| and of for loops
+        const isParameter = (member && (!member.body || candidate.start < member.body.start))
+            || (previous?.kind === 'punctuation' && (previous.text === '|' || previous.text === ',') && isInBlockParameters(tokens, i))
+            || (previous?.kind === 'punctuation' && previous.text === '(' && isKeyword(previousToken(tokens, tokens.indexOf(previous)), 'for'));
+        // Module variables are found elsewhere, from any offset
+        if ((isVariable && member) || isParameter) {
+            declaration = candidate;
+        }
+    }
+    return declaration;
+}
+
+// Whether the name at index is inside the |...| parameter list of a block argument
+function isInBlockParameters(tokens: WrenToken[], index: number): boolean {
+    for (let i = index - 1; i >= 0; i--) {
+        const token = tokens[i];
+        if (token.kind === 'punctuation' && token.text === '|') {
+            const previous = previousToken(tokens, i);
+            return previous?.kind === 'punctuation' && previous.text === '{';
+        }
+        if (token.kind !== 'name' && !(token.kind === 'punctuation' && token.text === ',')) {
+            return false;
+        }
+    }
+    return false;
+}
+
+// Case-insensitive subsequence match, like the symbol pickers
+function matchesQuery(name: string, query: string): boolean {
+    let position = 0;
+    const lowerName = name.toLowerCase();
+    for (const char of query.toLowerCase()) {
+        position = lowerName.indexOf(char, position) + 1;
+        if (position === 0) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function getMemberLabel(member: WrenMember): string {
+    switch (member.kind) {
+        case 'method':
+        case 'constructor':
+            return `${member.name}(${member.parameters.join(', ')})`;
+        case 'setter':
+            return `${member.name}=(${member.parameters.join(', ')})`;
+        case 'subscript':
+            return `[${member.parameters.join(', ')}]`;
+        case 'subscriptSetter':
+            return `[${member.parameters.slice(0, -1).join(', ')}]=(${member.parameters[member.parameters.length - 1] ?? ''})`;
+        case 'operator':
+            return member.parameters.length > 0 ? `${member.name}(${member.parameters[0]})` : member.name;
+        default:
+            return member.name;
+    }
+}
+
+function getMemberDetail(member: WrenMember): string {
+    return [member.isForeign ? 'foreign' : '', member.isStatic ? 'static' : '', member.kind === 'constructor' ? 'construct' : '']
+        .filter(Boolean).join(' ');
+}
+
+function getMemberKind(member: WrenMember): vscode.SymbolKind {
+    switch (member.kind) {
+        case 'constructor':
+            return vscode.SymbolKind.Constructor;
+        case 'getter':
+        case 'setter':
+            return vscode.SymbolKind.Property;
+        case 'operator':
+            return vscode.SymbolKind.Operator;
+        default:
+            return vscode.SymbolKind.Method;
+    }
+}
@@ -0,0 +1,257 @@
+// Tokenizer for Wren source, following the lexer of the Wren VM closely enough for
+// symbols, navigation, linting and formatting. Offsets are UTF-16 indexes into the source
+
+export type WrenTokenKind =
+    | 'name'          // identifiers, including class names
+    | 'field'         // _field
+    | 'staticField'   // __field
+    | 'keyword'
+    | 'number'
+    | 'string'        // a whole string, or the part after the last interpolation
+    | 'interpolation' // the part of a string before "%(", up to and including it
+    | 'punctuation'   // operators and brackets
+    | 'comment'
+    | 'newline'
+    | 'error';        // unterminated strings and comments, unknown characters
+
+export interface WrenToken {
+    kind: WrenTokenKind;
+    text: string;
+    start: number;
+    end: number;
+}
+
+export const WREN_KEYWORDS = new Set([
+    'as', 'break', 'class', 'construct', 'continue', 'else', 'false', 'for', 'foreign', 'if',
+    'import', 'in', 'is', 'null', 'return', 'static', 'super', 'this', 'true', 'var', 'while'
+]);
+
+// Longest first, so "..." wins over ".." and "."
+const PUNCTUATION = [
+    '...', '..', '==', '!=', '<=', '>=', '<<', '>>', '&&', '||',
+    '(', ')', '[', ']', '{', '}', ':', '.', ',', '*', '/', '%', '#', '+', '-',
+    '|', '&', '!', '~', '?', '=', '<', '>', '^'
+];
+
+export function tokenize(source: string): WrenToken[] {
+    const tokens: WrenToken[] = [];
+    let offset = 0;
+    // Paren depth of each open string interpolation, innermost last
+    const interpolations: number[] = [];
+
+    const push = (kind: WrenTokenKind, start: number, end: number) => {
+        tokens.push({ kind, text: source.substring(start, end), start, end });
+    };
+
+    // Scan a (possibly continued) string body from offset; emits 'string', or 'interpolation'
+    // and leaves the interpolated expression to the main loop
+    const readString = (start: number) => {
+        while (offset < source.length) {
+            const char = source[offset];
+            if (char === '"') {
+                offset++;
+                push('string', start, offset);
+                return;
+            }
+            if (char === '\\') {
+                offset += 2;
+                continue;
+            }
+            if (char === '%' && source[offset + 1] === '(') {
+                offset += 2;
+                push('interpolation', start, offset);
+                interpolations.push(1);
+                return;
+            }
+            if (char === '\n') {
+                break;
+            }
+            offset++;
+        }
+        push('error', start, offset);
+    };
+
+    while (offset < source.length) {
+        const start = offset;
+        const char = source[offset];
+
+        if (char === '\n') {
+            offset++;
+            push('newline', start, offset);
+            continue;
+        }
+        if (char === ' ' || char === '\t' || char === '\r') {
+            offset++;
+            continue;
+        }
+
+        // Comments; block comments nest
+        if (char === '/' && source[offset + 1] === '/') {
+            while (offset < source.length && source[offset] !== '\n') {
+                offset++;
+            }
+            push('comment', start, offset);
+            continue;
+        }
+        if (char === '/' && source[offset + 1] === '*') {
+            let depth = 0;
+            while (offset < source.length) {
+                if (source.startsWith('/*', offset)) {
+                    depth++;
+                    offset += 2;
+                } else if (source.startsWith('*/', offset)) {
+                    depth--;
+                    offset += 2;
+                    if (depth === 0) {
+                        break;
+                    }
+                } else {
+                    offset++;
+                }
+            }
+            push(depth === 0 ? 'comment' : 'error', start, offset);
+            continue;
+        }
+        // Shebang on the first line
+        if (start === 0 && source.startsWith('#!', 0) && !/^#![a-zA-Z_]/.test(source)) {
+            while (offset < source.length && source[offset] !== '\n') {
+                offset++;
+            }
+            push('comment', start, offset);
+            continue;
+        }
+
+        if (char === '"') {
+            if (source.startsWith('"""', offset)) {
+                const end = source.indexOf('"""', offset + 3);
+                offset = end < 0 ? source.length : end + 3;
+                push(end < 0 ? 'error' : 'string', start, offset);
+                continue;
+            }
+            offset++;
+            readString(start);
+            continue;
+        }
+
+        if (isDigit(char)) {
+            if (char === '0' && source[offset + 1] === 'x') {
+                offset += 2;
+                while (offset < source.length && /[0-9a-fA-F]/.test(source[offset])) {
+                    offset++;
+                }
+            } else {
+                while (isDigit(source[offset])) {
+                    offset++;
+                }
+                if (source[offset] === '.' && isDigit(source[offset + 1])) {
+                    offset++;
+                    while (isDigit(source[offset])) {
+                        offset++;
+                    }
+                }
+                if ((source[offset] === 'e' || source[offset] === 'E') &&
+                    (isDigit(source[offset + 1]) || (/[+-]/.test(source[offset + 1]) && isDigit(source[offset + 2])))) {
+                    offset += 2;
+                    while (isDigit(source[offset])) {
+                        offset++;
+                    }
+                }
+            }
+            push('number', start, offset);
+            continue;
+        }
+
+        if (isNameStart(char)) {
+            while (offset < source.length && isNamePart(source[offset])) {
+                offset++;
+            }
+            const text = source.substring(start, offset);
+            if (text.startsWith('__')) {
+                push('staticField', start, offset);
+            } else if (text.startsWith('_')) {
+                push('field', start, offset);
+            } else {
+                push(WREN_KEYWORDS.has(text) ? 'keyword' : 'name', start, offset);
+            }
+            continue;
+        }
+
+        const punctuation = PUNCTUATION.find(candidate => source.startsWith(candidate, offset));
+        if (punctuation) {
+            offset += punctuation.length;
+            // A ")" that closes an interpolation continues the string
+            if (interpolations.length > 0 && (punctuation === '(' || punctuation === ')')) {
+                const depth = interpolations[interpolations.length - 1] + (punctuation === '(' ? 1 : -1);
+                if (depth === 0) {
+                    interpolations.pop();
+                    readString(start);
+                    continue;
+                }
+                interpolations[interpolations.length - 1] = depth;
+            }
+            push('punctuation', start, offset);
+            continue;
+        }
+
+        offset++;
+        push('error', start, offset);
+    }
+    return tokens;
+}
+
+function isDigit(char: string | undefined): boolean {
+    return char !== undefined && char >= '0' && char <= '9';
+}
+
+function isNameStart(char: string): boolean {
+    return (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z') || char === '_';
+}
+
+function isNamePart(char: string): boolean {
+    return isNameStart(char) || isDigit(char);
+}
+
+export function isKeyword(token: WrenToken | undefined, text: string): boolean {
+    return token?.kind === 'keyword' && token.text === text;
+}
+
+export function isPunctuation(token: WrenToken | undefined, text: string): boolean {
+    return token?.kind === 'punctuation' && token.text === text;
+}
+
+// The token before index, skipping comments and newlines
+export function previousToken(tokens: WrenToken[], index: number): WrenToken | undefined {
+    for (let i = index - 1; i >= 0; i--) {
+        if (tokens[i].kind !== 'comment' && tokens[i].kind !== 'newline') {
+            return tokens[i];
+        }
+    }
+    return undefined;
+}
+
+// Converts offsets to zero-based line/character positions, for sources that are not open documents
+export class LineMap {
+    private readonly lineStarts: number[] = [0];
+
+    constructor(source: string) {
+        for (let i = 0; i < source.length; i++) {
+            if (source[i] === '\n') {
+                this.lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    positionAt(offset: number): { line: number; character: number } {
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this.lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return { line: low, character: offset - this.lineStarts[low] };
+    }
+}